@@ -1,27 +1,66 @@
 import { HttpModule } from '@nestjs/axios';
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { CqrsModule } from '@nestjs/cqrs';
 
-import { ClubUpdatedHandler } from './domain/handlers/club-updated.handler';
+import { AvailabilityChangesHandler } from './domain/handlers/availability-changes.handler';
 import { GetAvailabilityHandler } from './domain/handlers/get-availability.handler';
+import { GetAvailabilityRangeHandler } from './domain/handlers/get-availability-range.handler';
+import { GetClubHandler } from './domain/handlers/get-club.handler';
+import { GetCourtHandler } from './domain/handlers/get-court.handler';
+import { GetZonesHandler } from './domain/handlers/get-zones.handler';
 import { ALQUILA_TU_CANCHA_CLIENT } from './domain/ports/aquila-tu-cancha.client';
+import { CACHE_STORE } from './domain/ports/cache-store';
+import { EVENT_LOG } from './domain/ports/event-log';
+import { SPAN_EXPORTER } from './domain/ports/span-exporter';
+import { ConsoleSpanExporter } from './infrastructure/clients/console-span-exporter';
+import { FileEventLog } from './infrastructure/clients/file-event-log';
+import { FileSpanExporter } from './infrastructure/clients/file-span-exporter';
 import { HTTPAlquilaTuCanchaClient } from './infrastructure/clients/http-alquila-tu-cancha.client';
+import { InMemoryCacheService } from './infrastructure/clients/in-memory-cache.service';
 import { RedisService } from './infrastructure/clients/redis.service';
+import { RedisEventLog } from './infrastructure/clients/redis-event-log';
+import { AdminController } from './infrastructure/controllers/admin.controller';
+import { ClubsController } from './infrastructure/controllers/clubs.controller';
 import { EventsController } from './infrastructure/controllers/events.controller';
+import { HealthController } from './infrastructure/controllers/health.controller';
 import { MetricsController } from './infrastructure/controllers/metrics.controller';
 import { SearchController } from './infrastructure/controllers/search.controller';
+import { ZonesController } from './infrastructure/controllers/zones.controller';
+import { RequestLoggingInterceptor } from './infrastructure/interceptors/request-logging.interceptor';
+import { TracingInterceptor } from './infrastructure/interceptors/tracing.interceptor';
 import { AdvancedCacheService } from './infrastructure/services/advanced-cache.service';
+import { AppLogger } from './infrastructure/services/app-logger.service';
+import { AvailabilityPatcherService } from './infrastructure/services/availability-patcher.service';
+import { AvailabilityStreamService } from './infrastructure/services/availability-stream.service';
+import { CacheAdminService } from './infrastructure/services/cache-admin.service';
+import { CacheIndexService } from './infrastructure/services/cache-index.service';
+import { CacheWarmerService } from './infrastructure/services/cache-warmer.service';
 import { CircuitBreakerService } from './infrastructure/services/circuit-breaker.service';
+import { EventIngestionService } from './infrastructure/services/event-ingestion.service';
+import { HealthService } from './infrastructure/services/health.service';
+import { L1CacheService } from './infrastructure/services/l1-cache.service';
+import { PrometheusService } from './infrastructure/services/prometheus.service';
+import { QueryStatsService } from './infrastructure/services/query-stats.service';
+import { RateLimiterService } from './infrastructure/services/rate-limiter.service';
 import { RequestBatcherService } from './infrastructure/services/request-batcher.service';
+import { TracingService } from './infrastructure/services/tracing.service';
+import { UpstreamSchedulerService } from './infrastructure/services/upstream-scheduler.service';
 
 /**
  * Módulo principal de la aplicación con todas las optimizaciones implementadas:
  * - Servicios de cache avanzado
  * - Circuit breaker para tolerancia a fallos
  * - Batching de requests
- * - Redis mejorado
- * - Endpoint de métricas para monitoreo
+ * - Cache store Redis o en memoria según `CACHE_STORE`
+ * - Log de eventos en Redis Stream o archivo local según `EVENT_LOG`
+ *   (por defecto, según el backend del cache store)
+ * - Trazas por request exportadas a consola o archivo según `TRACE_EXPORTER`
+ * - Logs JSON con el request id de la traza (AppLogger, ver main.ts)
+ * - Endpoint de métricas para monitoreo (JSON y formato Prometheus)
+ * - Rutas de administración del cache y replay de eventos
+ * - Sondas de liveness y readiness, y apagado ordenado (ver main.ts)
  */
 @Module({
   imports: [
@@ -32,21 +71,84 @@ import { RequestBatcherService } from './infrastructure/services/request-batcher
       envFilePath: ['.env.local', '.env'],
     }),
   ],
-  controllers: [SearchController, EventsController, MetricsController],
+  controllers: [
+    SearchController,
+    ZonesController,
+    ClubsController,
+    EventsController,
+    MetricsController,
+    AdminController,
+    HealthController,
+  ],
   providers: [
-    RedisService,
+    {
+      provide: CACHE_STORE,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('CACHE_STORE', 'redis') === 'memory'
+          ? new InMemoryCacheService(configService)
+          : new RedisService(configService),
+      inject: [ConfigService],
+    },
+    {
+      provide: EVENT_LOG,
+      useFactory: (configService: ConfigService) => {
+        const defaultLog =
+          configService.get<string>('CACHE_STORE', 'redis') === 'memory'
+            ? 'file'
+            : 'redis';
+        return configService.get<string>('EVENT_LOG', defaultLog) === 'file'
+          ? new FileEventLog(configService)
+          : new RedisEventLog(configService);
+      },
+      inject: [ConfigService],
+    },
+    {
+      provide: SPAN_EXPORTER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('TRACE_EXPORTER', 'console') === 'file'
+          ? new FileSpanExporter(configService)
+          : new ConsoleSpanExporter(),
+      inject: [ConfigService],
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: TracingInterceptor,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: RequestLoggingInterceptor,
+    },
+    TracingService,
+    AppLogger,
+    L1CacheService,
     AdvancedCacheService,
+    AvailabilityPatcherService,
+    AvailabilityStreamService,
+    CacheIndexService,
     CircuitBreakerService,
     RequestBatcherService,
+    RateLimiterService,
+    UpstreamSchedulerService,
+    QueryStatsService,
+    PrometheusService,
+    CacheWarmerService,
+    EventIngestionService,
+    CacheAdminService,
+    HealthService,
+    HTTPAlquilaTuCanchaClient,
     {
       provide: ALQUILA_TU_CANCHA_CLIENT,
-      useClass: HTTPAlquilaTuCanchaClient,
+      useExisting: HTTPAlquilaTuCanchaClient,
     },
     GetAvailabilityHandler,
-    ClubUpdatedHandler,
+    GetAvailabilityRangeHandler,
+    GetZonesHandler,
+    GetClubHandler,
+    GetCourtHandler,
+    AvailabilityChangesHandler,
   ],
   exports: [
-    RedisService,
+    CACHE_STORE,
     AdvancedCacheService,
     CircuitBreakerService,
     RequestBatcherService,
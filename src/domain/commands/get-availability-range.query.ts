@@ -0,0 +1,20 @@
+import { ClubWithAvailability } from './get-availability.query';
+
+export class GetAvailabilityRangeQuery {
+  constructor(
+    readonly placeId: string,
+    readonly from: Date,
+    readonly to: Date,
+  ) {}
+}
+
+export interface AvailabilityForDate {
+  date: string;
+  clubs: ClubWithAvailability[];
+  // true cuando se sirvió la copia desactualizada mientras se refresca
+  isStale: boolean;
+  // Segundos desde que los datos se obtuvieron de la API
+  age: number;
+  // true cuando la API falló y no había copia cacheada: `clubs` viene vacío
+  unavailable: boolean;
+}
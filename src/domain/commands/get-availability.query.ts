@@ -2,8 +2,24 @@ import { Club } from '../model/club';
 import { Court } from '../model/court';
 import { Slot } from '../model/slot';
 
+export interface AvailabilityFilters {
+  sport?: string;
+  from?: string;
+  to?: string;
+  maxPrice?: number;
+  duration?: number;
+  roofed?: boolean;
+  light?: boolean;
+  floor?: string;
+  attributes?: string[];
+}
+
 export class GetAvailabilityQuery {
-  constructor(readonly placeId: string, readonly date: Date) {}
+  constructor(
+    readonly placeId: string,
+    readonly date: Date,
+    readonly filters?: AvailabilityFilters,
+  ) {}
 }
 
 export interface ClubWithAvailability extends Club {
@@ -11,3 +27,11 @@ export interface ClubWithAvailability extends Club {
     available: Slot[];
   })[];
 }
+
+export interface AvailabilityResult {
+  clubs: ClubWithAvailability[];
+  // true cuando se sirvió la copia desactualizada mientras se refresca
+  isStale: boolean;
+  // Segundos desde que los datos se obtuvieron de la API
+  age: number;
+}
@@ -0,0 +1,3 @@
+export class GetClubQuery {
+  constructor(readonly clubId: number) {}
+}
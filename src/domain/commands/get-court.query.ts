@@ -0,0 +1,3 @@
+export class GetCourtQuery {
+  constructor(readonly clubId: number, readonly courtId: number) {}
+}
@@ -0,0 +1,124 @@
+import { ClubWithAvailability } from '../commands/get-availability.query';
+import { filterAvailability } from './availability.filter';
+
+describe('filterAvailability', () => {
+  const slot = (start: string, price = 4000, duration = 60) => ({
+    price,
+    duration,
+    datetime: `2022-08-25 ${start}`,
+    start,
+    end: start,
+    _priority: 0,
+  });
+
+  const sport = (name: string) => ({
+    id: 1,
+    parent_id: null,
+    name,
+    players_max: 10,
+    order: 0,
+    default_duration: 60,
+    divisible_duration: 30,
+    icon: `${name.toLowerCase()}.png`,
+  });
+
+  const clubs = [
+    {
+      id: 1,
+      attributes: ['parking', 'showers'],
+      courts: [
+        {
+          id: 10,
+          name: 'Cancha 1',
+          attributes: {
+            floor: 'synthetic',
+            light: true,
+            roofed: true,
+            beelup: false,
+          },
+          sports: [sport('FOOTBALL5')],
+          available: [slot('09:00'), slot('19:00', 6000), slot('21:00')],
+        },
+        {
+          id: 11,
+          name: 'Cancha 2',
+          attributes: {
+            floor: 'cement',
+            light: false,
+            roofed: false,
+            beelup: false,
+          },
+          sports: [sport('PADEL')],
+          available: [slot('10:00', 3000, 90)],
+        },
+      ],
+    },
+    {
+      id: 2,
+      attributes: ['grill'],
+      courts: [
+        {
+          id: 20,
+          name: 'Cancha 1',
+          attributes: {
+            floor: 'synthetic',
+            light: true,
+            roofed: false,
+            beelup: false,
+          },
+          sports: [sport('FOOTBALL5')],
+          available: [slot('20:00')],
+        },
+      ],
+    },
+  ] as unknown as ClubWithAvailability[];
+
+  it('should return the same result when no filters are given', () => {
+    expect(filterAvailability(clubs, {})).toBe(clubs);
+  });
+
+  it('should filter courts by sport', () => {
+    const result = filterAvailability(clubs, { sport: 'PADEL' });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].courts.map((court) => court.id)).toEqual([11]);
+  });
+
+  it('should filter courts by attributes', () => {
+    const result = filterAvailability(clubs, { roofed: false, light: true });
+
+    expect(result.map((club) => club.id)).toEqual([2]);
+  });
+
+  it('should filter slots by time window, price and duration', () => {
+    const result = filterAvailability(clubs, {
+      from: '18:00',
+      to: '21:00',
+      maxPrice: 5000,
+    });
+
+    expect(result.map((club) => club.id)).toEqual([1, 2]);
+    expect(result[0].courts).toHaveLength(1);
+    expect(result[0].courts[0].available).toEqual([slot('21:00')]);
+
+    const byDuration = filterAvailability(clubs, { duration: 90 });
+    expect(byDuration[0].courts[0].available).toEqual([
+      slot('10:00', 3000, 90),
+    ]);
+  });
+
+  it('should filter clubs by attributes', () => {
+    const result = filterAvailability(clubs, { attributes: ['parking'] });
+
+    expect(result.map((club) => club.id)).toEqual([1]);
+    expect(result[0].courts).toHaveLength(2);
+  });
+
+  it('should not modify the given availability', () => {
+    const snapshot = JSON.stringify(clubs);
+
+    filterAvailability(clubs, { sport: 'FOOTBALL5', from: '20:00' });
+
+    expect(JSON.stringify(clubs)).toBe(snapshot);
+  });
+});
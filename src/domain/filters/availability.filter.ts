@@ -0,0 +1,126 @@
+import {
+  AvailabilityFilters,
+  ClubWithAvailability,
+} from '../commands/get-availability.query';
+import { Slot } from '../model/slot';
+
+type CourtWithAvailability = ClubWithAvailability['courts'][number];
+
+/**
+ * Aplica los filtros de búsqueda sobre la disponibilidad completa de una zona.
+ * Se ejecuta después del cache para reutilizar el mismo resultado entre
+ * distintas combinaciones de filtros. Nunca modifica el resultado recibido.
+ */
+export function filterAvailability(
+  clubs: ClubWithAvailability[],
+  filters: AvailabilityFilters,
+): ClubWithAvailability[] {
+  const filterCourts = hasCourtFilters(filters);
+  const filterSlots = hasSlotFilters(filters);
+
+  if (!filterCourts && !filterSlots && !filters.attributes?.length) {
+    return clubs;
+  }
+
+  return clubs
+    .filter((club) => matchesClub(club, filters))
+    .map((club) => ({
+      ...club,
+      courts: club.courts
+        .filter((court) => matchesCourt(court, filters))
+        .map((court) =>
+          filterSlots
+            ? {
+                ...court,
+                available: court.available.filter((slot) =>
+                  matchesSlot(slot, filters),
+                ),
+              }
+            : court,
+        )
+        .filter((court) => !filterSlots || court.available.length > 0),
+    }))
+    .filter((club) => !(filterCourts || filterSlots) || club.courts.length > 0);
+}
+
+function hasCourtFilters(filters: AvailabilityFilters): boolean {
+  return (
+    filters.sport !== undefined ||
+    filters.roofed !== undefined ||
+    filters.light !== undefined ||
+    filters.floor !== undefined
+  );
+}
+
+function hasSlotFilters(filters: AvailabilityFilters): boolean {
+  return (
+    filters.from !== undefined ||
+    filters.to !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.duration !== undefined
+  );
+}
+
+function matchesClub(
+  club: ClubWithAvailability,
+  filters: AvailabilityFilters,
+): boolean {
+  if (!filters.attributes?.length) {
+    return true;
+  }
+  const attributes = club.attributes ?? [];
+  return filters.attributes.every((attribute) =>
+    attributes.includes(attribute),
+  );
+}
+
+function matchesCourt(
+  court: CourtWithAvailability,
+  filters: AvailabilityFilters,
+): boolean {
+  if (
+    filters.sport !== undefined &&
+    !(court.sports ?? []).some((sport) => sport.name === filters.sport)
+  ) {
+    return false;
+  }
+  if (
+    filters.roofed !== undefined &&
+    court.attributes?.roofed !== filters.roofed
+  ) {
+    return false;
+  }
+  if (
+    filters.light !== undefined &&
+    court.attributes?.light !== filters.light
+  ) {
+    return false;
+  }
+  if (
+    filters.floor !== undefined &&
+    court.attributes?.floor !== filters.floor
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * La ventana horaria se evalúa sobre el horario de inicio del slot,
+ * incluyendo ambos extremos
+ */
+function matchesSlot(slot: Slot, filters: AvailabilityFilters): boolean {
+  if (filters.from !== undefined && slot.start < filters.from) {
+    return false;
+  }
+  if (filters.to !== undefined && slot.start > filters.to) {
+    return false;
+  }
+  if (filters.maxPrice !== undefined && slot.price > filters.maxPrice) {
+    return false;
+  }
+  if (filters.duration !== undefined && slot.duration !== filters.duration) {
+    return false;
+  }
+  return true;
+}
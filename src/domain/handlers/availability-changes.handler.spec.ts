@@ -0,0 +1,60 @@
+import { AvailabilityStreamService } from '../../infrastructure/services/availability-stream.service';
+import {
+  ClubUpdatedEvent,
+  CourtUpdatedEvent,
+  SlotAvailableEvent,
+  SlotBookedEvent,
+} from '../events';
+import { AvailabilityChangesHandler } from './availability-changes.handler';
+
+describe('AvailabilityChangesHandler', () => {
+  let handler: AvailabilityChangesHandler;
+  let availabilityStream: { publish: jest.Mock };
+
+  const slot = {
+    price: 1500,
+    duration: 60,
+    datetime: '2022-08-20 10:00',
+    start: '10:00',
+    end: '11:00',
+    _priority: 1,
+  };
+
+  beforeEach(() => {
+    availabilityStream = { publish: jest.fn() };
+    handler = new AvailabilityChangesHandler(
+      availabilityStream as unknown as AvailabilityStreamService,
+    );
+  });
+
+  it.each([
+    [
+      new SlotBookedEvent(1, 2, slot),
+      { type: 'slot_removed', clubId: 1, courtId: 2, slot },
+    ],
+    [
+      new SlotAvailableEvent(1, 2, slot),
+      { type: 'slot_added', clubId: 1, courtId: 2, slot },
+    ],
+    [
+      new CourtUpdatedEvent(1, 2, ['name']),
+      { type: 'court_updated', clubId: 1, courtId: 2, fields: ['name'] },
+    ],
+    [
+      new ClubUpdatedEvent(1, ['openhours']),
+      { type: 'club_updated', clubId: 1, fields: ['openhours'] },
+    ],
+  ])('should publish %p as a change', async (event, change) => {
+    await handler.handle(event);
+
+    expect(availabilityStream.publish).toHaveBeenCalledWith(change);
+  });
+
+  it('should not fail the event when publishing fails', async () => {
+    availabilityStream.publish.mockRejectedValue(new Error('Redis down'));
+
+    await expect(
+      handler.handle(new ClubUpdatedEvent(1, ['attributes'])),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { Logger } from '@nestjs/common';
+import { EventsHandler, IEventHandler } from '@nestjs/cqrs';
+
+import {
+  AvailabilityChange,
+  AvailabilityStreamService,
+} from '../../infrastructure/services/availability-stream.service';
+import {
+  ClubUpdatedEvent,
+  CourtUpdatedEvent,
+  SlotAvailableEvent,
+  SlotBookedEvent,
+} from '../events';
+
+type AvailabilityEvent =
+  | SlotBookedEvent
+  | SlotAvailableEvent
+  | CourtUpdatedEvent
+  | ClubUpdatedEvent;
+
+/**
+ * Traduce los eventos de dominio a cambios de disponibilidad para los
+ * clientes suscriptos a `/search/stream`
+ */
+@EventsHandler(
+  SlotBookedEvent,
+  SlotAvailableEvent,
+  CourtUpdatedEvent,
+  ClubUpdatedEvent,
+)
+export class AvailabilityChangesHandler
+  implements IEventHandler<AvailabilityEvent>
+{
+  private readonly logger = new Logger(AvailabilityChangesHandler.name);
+
+  constructor(private readonly availabilityStream: AvailabilityStreamService) {}
+
+  async handle(event: AvailabilityEvent) {
+    try {
+      await this.availabilityStream.publish(this.toChange(event));
+    } catch (error: any) {
+      this.logger.warn(
+        `Could not publish availability change for club ${event.clubId}: ${error.message}`,
+      );
+    }
+  }
+
+  private toChange(event: AvailabilityEvent): AvailabilityChange {
+    const { clubId } = event;
+
+    if (event instanceof SlotBookedEvent) {
+      return {
+        type: 'slot_removed',
+        clubId,
+        courtId: event.courtId,
+        slot: event.slot,
+      };
+    }
+    if (event instanceof SlotAvailableEvent) {
+      return {
+        type: 'slot_added',
+        clubId,
+        courtId: event.courtId,
+        slot: event.slot,
+      };
+    }
+    if (event instanceof CourtUpdatedEvent) {
+      return {
+        type: 'court_updated',
+        clubId,
+        courtId: event.courtId,
+        fields: event.fields,
+      };
+    }
+    return { type: 'club_updated', clubId, fields: event.fields };
+  }
+}
@@ -0,0 +1,229 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { PrometheusService } from '../../infrastructure/services/prometheus.service';
+import { QueryStatsService } from '../../infrastructure/services/query-stats.service';
+import { TracingService } from '../../infrastructure/services/tracing.service';
+import { GetAvailabilityRangeQuery } from '../commands/get-availability-range.query';
+import { ALQUILA_TU_CANCHA_CLIENT } from '../ports/aquila-tu-cancha.client';
+import { SPAN_EXPORTER } from '../ports/span-exporter';
+import { GetAvailabilityHandler } from './get-availability.handler';
+import { GetAvailabilityRangeHandler } from './get-availability-range.handler';
+
+describe('GetAvailabilityRangeHandler', () => {
+  let handler: GetAvailabilityRangeHandler;
+  let client: any;
+  let advancedCache: any;
+  let availabilityHandler: { scheduleRefresh: jest.Mock };
+  let queryStats: { record: jest.Mock };
+  let prometheus: PrometheusService;
+  let spanExporter: { export: jest.Mock; close: jest.Mock };
+  let tracing: TracingService;
+
+  const from = new Date('2022-08-25T00:00:00Z');
+  const to = new Date('2022-08-27T00:00:00Z');
+
+  beforeEach(async () => {
+    const mockClient = {
+      getClubs: jest.fn().mockResolvedValue([{ id: 1 }]),
+      getCourts: jest.fn().mockResolvedValue([{ id: 10 }]),
+      getAvailableSlots: jest.fn(),
+    };
+
+    const mockAdvancedCache = {
+      getWithAge: jest.fn(),
+      setWithIntelligentTTL: jest.fn(),
+      generateKey: jest.fn((type, ...params) => [type, ...params].join(':')),
+      generateStaleKey: jest.fn((type, ...params) =>
+        [type, 'stale', ...params].join(':'),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GetAvailabilityRangeHandler,
+        {
+          provide: ALQUILA_TU_CANCHA_CLIENT,
+          useValue: mockClient,
+        },
+        {
+          provide: AdvancedCacheService,
+          useValue: mockAdvancedCache,
+        },
+        {
+          provide: GetAvailabilityHandler,
+          useValue: { scheduleRefresh: jest.fn() },
+        },
+        {
+          provide: QueryStatsService,
+          useValue: { record: jest.fn() },
+        },
+        PrometheusService,
+        TracingService,
+        {
+          provide: SPAN_EXPORTER,
+          useValue: {
+            export: jest.fn().mockResolvedValue(undefined),
+            close: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService(),
+        },
+      ],
+    }).compile();
+
+    handler = module.get<GetAvailabilityRangeHandler>(
+      GetAvailabilityRangeHandler,
+    );
+    client = module.get(ALQUILA_TU_CANCHA_CLIENT);
+    advancedCache = module.get(AdvancedCacheService);
+    availabilityHandler = module.get(GetAvailabilityHandler);
+    queryStats = module.get(QueryStatsService);
+    prometheus = module.get(PrometheusService);
+    spanExporter = module.get(SPAN_EXPORTER);
+    tracing = module.get(TracingService);
+  });
+
+  it('should return one entry per date in the range', async () => {
+    advancedCache.getWithAge.mockResolvedValue({
+      data: [],
+      isStale: false,
+      age: 30,
+    });
+
+    const result = await handler.execute(
+      new GetAvailabilityRangeQuery('test-place', from, to),
+    );
+
+    expect(result.map((day) => day.date)).toEqual([
+      '2022-08-25',
+      '2022-08-26',
+      '2022-08-27',
+    ]);
+    expect(client.getClubs).not.toHaveBeenCalled();
+  });
+
+  it('should share clubs and courts lookups across missing dates', async () => {
+    const cachedDay = [{ id: 1, courts: [] }];
+    advancedCache.getWithAge
+      .mockResolvedValueOnce({ data: cachedDay, isStale: false, age: 30 })
+      .mockResolvedValue({ data: null, isStale: false, age: 0 });
+    client.getAvailableSlots.mockResolvedValue([{ start: '10:00' }]);
+
+    const result = await handler.execute(
+      new GetAvailabilityRangeQuery('test-place', from, to),
+    );
+
+    expect(client.getClubs).toHaveBeenCalledTimes(1);
+    expect(client.getCourts).toHaveBeenCalledTimes(1);
+    expect(client.getAvailableSlots).toHaveBeenCalledTimes(2);
+    expect(result[0].clubs).toEqual(cachedDay);
+    expect(result[1].clubs).toEqual([
+      { id: 1, courts: [{ id: 10, available: [{ start: '10:00' }] }] },
+    ]);
+    expect(advancedCache.setWithIntelligentTTL).toHaveBeenCalledWith(
+      'availability:test-place:2022-08-26',
+      result[1].clubs,
+      'AVAILABILITY',
+      'availability:stale:test-place:2022-08-26',
+    );
+  });
+
+  it('should keep the rest of the range when one day fails', async () => {
+    advancedCache.getWithAge.mockResolvedValue({
+      data: null,
+      isStale: false,
+      age: 0,
+    });
+    client.getAvailableSlots
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error('API Error'))
+      .mockResolvedValueOnce([]);
+
+    const result = await handler.execute(
+      new GetAvailabilityRangeQuery('test-place', from, to),
+    );
+
+    expect(result[0].clubs).toHaveLength(1);
+    expect(result[1]).toMatchObject({ clubs: [], unavailable: true });
+    expect(result[2].clubs).toHaveLength(1);
+    expect(result[2].unavailable).toBe(false);
+    expect(prometheus.render()).toContain(
+      'search_request_duration_seconds_count{outcome="fallback"} 1',
+    );
+  });
+
+  it('should mark every missing day unavailable when clubs cannot be fetched', async () => {
+    const cachedDay = [{ id: 1, courts: [] }];
+    advancedCache.getWithAge
+      .mockResolvedValueOnce({ data: cachedDay, isStale: false, age: 30 })
+      .mockResolvedValue({ data: null, isStale: false, age: 0 });
+    client.getClubs.mockRejectedValue(new Error('API Error'));
+
+    const result = await handler.execute(
+      new GetAvailabilityRangeQuery('test-place', from, to),
+    );
+
+    expect(result.map((day) => day.unavailable)).toEqual([false, true, true]);
+    expect(result[0].clubs).toEqual(cachedDay);
+  });
+
+  it('should record every day for the cache warmer and trace the query', async () => {
+    advancedCache.getWithAge.mockResolvedValue({
+      data: [],
+      isStale: false,
+      age: 30,
+    });
+
+    await tracing.startTrace('trace-1', () =>
+      handler.execute(new GetAvailabilityRangeQuery('test-place', from, to)),
+    );
+
+    expect(queryStats.record.mock.calls).toEqual([
+      ['test-place', '2022-08-25'],
+      ['test-place', '2022-08-26'],
+      ['test-place', '2022-08-27'],
+    ]);
+    expect(spanExporter.export).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'availability.range',
+        attributes: expect.objectContaining({
+          placeId: 'test-place',
+          outcome: 'fresh',
+        }),
+      }),
+    );
+    expect(prometheus.render()).toContain(
+      'search_request_duration_seconds_count{outcome="fresh"} 1',
+    );
+  });
+
+  it('should serve stale days and refresh them in the background', async () => {
+    const staleDay = [{ id: 1, courts: [] }];
+    advancedCache.getWithAge
+      .mockResolvedValueOnce({ data: staleDay, isStale: true, age: 400 })
+      .mockResolvedValue({ data: [], isStale: false, age: 30 });
+
+    const result = await handler.execute(
+      new GetAvailabilityRangeQuery('test-place', from, to),
+    );
+
+    expect(result[0]).toEqual({
+      date: '2022-08-25',
+      clubs: staleDay,
+      isStale: true,
+      age: 400,
+      unavailable: false,
+    });
+    expect(result[1]).toMatchObject({ isStale: false, age: 30 });
+    expect(availabilityHandler.scheduleRefresh).toHaveBeenCalledTimes(1);
+    expect(availabilityHandler.scheduleRefresh).toHaveBeenCalledWith(
+      'test-place',
+      from,
+    );
+    expect(client.getClubs).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+import { Inject, Logger } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import * as moment from 'moment';
+
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { PrometheusService } from '../../infrastructure/services/prometheus.service';
+import { QueryStatsService } from '../../infrastructure/services/query-stats.service';
+import { TracingService } from '../../infrastructure/services/tracing.service';
+import { ClubWithAvailability } from '../commands/get-availability.query';
+import {
+  AvailabilityForDate,
+  GetAvailabilityRangeQuery,
+} from '../commands/get-availability-range.query';
+import { Club } from '../model/club';
+import { Court } from '../model/court';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  AlquilaTuCanchaClient,
+} from '../ports/aquila-tu-cancha.client';
+import { GetAvailabilityHandler } from './get-availability.handler';
+
+type CachedDay = Omit<AvailabilityForDate, 'date' | 'unavailable'>;
+
+/**
+ * Handler para consultas de disponibilidad de varios días:
+ * - Reutiliza las entradas `availability:*` cacheadas por día
+ * - Consulta clubs y courts una sola vez para todos los días faltantes
+ * - Solo pide a la API los slots de cada día
+ * - Mismo fallback a datos desactualizados que GetAvailabilityHandler: los
+ *   días desactualizados se sirven y se refrescan en segundo plano
+ * - Los días que la API no pudo resolver y no estaban cacheados se marcan
+ *   como `unavailable` en lugar de devolverse como días sin clubs
+ * - Mismas métricas, trazas y registro de consultas que una búsqueda por día
+ */
+@QueryHandler(GetAvailabilityRangeQuery)
+export class GetAvailabilityRangeHandler
+  implements IQueryHandler<GetAvailabilityRangeQuery>
+{
+  private readonly logger = new Logger(GetAvailabilityRangeHandler.name);
+
+  constructor(
+    @Inject(ALQUILA_TU_CANCHA_CLIENT)
+    private readonly client: AlquilaTuCanchaClient,
+    private readonly advancedCache: AdvancedCacheService,
+    private readonly availabilityHandler: GetAvailabilityHandler,
+    private readonly queryStats: QueryStatsService,
+    private readonly prometheus: PrometheusService,
+    private readonly tracing: TracingService,
+  ) {}
+
+  async execute(
+    query: GetAvailabilityRangeQuery,
+  ): Promise<AvailabilityForDate[]> {
+    const { placeId, from, to } = query;
+    const dates = this.enumerateDates(from, to);
+    dates.forEach((date) =>
+      this.queryStats.record(placeId, this.formatDate(date)),
+    );
+
+    return this.tracing.trace(
+      'availability.range',
+      { placeId, from: this.formatDate(from), to: this.formatDate(to) },
+      () => this.getAvailability(placeId, dates),
+    );
+  }
+
+  private async getAvailability(
+    placeId: string,
+    dates: Date[],
+  ): Promise<AvailabilityForDate[]> {
+    const startTime = Date.now();
+
+    const cached = await Promise.all(
+      dates.map((date) => this.getCachedAvailability(placeId, date)),
+    );
+    const missingDates = dates.filter((_, index) => !cached[index]);
+    dates
+      .filter((_, index) => cached[index]?.isStale)
+      .forEach((date) =>
+        this.availabilityHandler.scheduleRefresh(placeId, date),
+      );
+
+    let fetched = new Map<string, ClubWithAvailability[]>();
+    if (missingDates.length > 0) {
+      try {
+        fetched = await this.fetchAvailability(placeId, missingDates);
+      } catch (error: any) {
+        this.logger.error(
+          `Error fetching availability range for place: ${placeId}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    const result = dates.map((date, index) => {
+      const formattedDate = this.formatDate(date);
+      const clubs = fetched.get(formattedDate);
+      return {
+        date: formattedDate,
+        ...(cached[index] ?? { clubs: clubs ?? [], isStale: false, age: 0 }),
+        unavailable: !cached[index] && !clubs,
+      };
+    });
+
+    const duration = Date.now() - startTime;
+    const outcome = this.getOutcome(result, missingDates.length);
+    this.prometheus.searchDuration.observe({ outcome }, duration / 1000);
+    this.tracing.annotate({ outcome });
+    this.logger.log(
+      `Availability range query completed for ${dates.length} days, ${missingDates.length} fetched, ${outcome} (${duration}ms)`,
+    );
+    return result;
+  }
+
+  /**
+   * Resultado del rango según su peor día: alcanza un día sin datos para
+   * contarlo como fallback
+   */
+  private getOutcome(
+    days: AvailabilityForDate[],
+    fetched: number,
+  ): 'fresh' | 'stale' | 'miss' | 'fallback' {
+    if (days.some((day) => day.unavailable)) {
+      return 'fallback';
+    }
+    if (fetched > 0) {
+      return 'miss';
+    }
+    return days.some((day) => day.isStale) ? 'stale' : 'fresh';
+  }
+
+  private async getCachedAvailability(
+    placeId: string,
+    date: Date,
+  ): Promise<CachedDay | null> {
+    const formattedDate = this.formatDate(date);
+    const { data, isStale, age } = await this.advancedCache.getWithAge<
+      ClubWithAvailability[]
+    >(
+      this.advancedCache.generateKey('availability', placeId, formattedDate),
+      this.advancedCache.generateStaleKey(
+        'availability',
+        placeId,
+        formattedDate,
+      ),
+    );
+
+    if (!data) {
+      return null;
+    }
+    if (isStale) {
+      this.logger.warn(
+        `Using stale availability data for place: ${placeId}, date: ${formattedDate}`,
+      );
+    }
+    return { clubs: data, isStale, age };
+  }
+
+  /**
+   * Clubs y courts se comparten entre días; un fallo en los slots de un día
+   * no afecta al resto del rango
+   */
+  private async fetchAvailability(
+    placeId: string,
+    dates: Date[],
+  ): Promise<Map<string, ClubWithAvailability[]>> {
+    const clubs = await this.client.getClubs(placeId);
+    const courts = await Promise.all(
+      clubs.map((club) => this.client.getCourts(club.id)),
+    );
+
+    const result = new Map<string, ClubWithAvailability[]>();
+    for (const date of dates) {
+      const formattedDate = this.formatDate(date);
+      try {
+        const availability = await this.fetchSlotsForDate(clubs, courts, date);
+        await this.cacheAvailability(placeId, formattedDate, availability);
+        result.set(formattedDate, availability);
+      } catch (error: any) {
+        this.logger.error(
+          `Error fetching slots for place: ${placeId}, date: ${formattedDate}: ${error.message}`,
+        );
+      }
+    }
+    return result;
+  }
+
+  private async fetchSlotsForDate(
+    clubs: Club[],
+    courts: Court[][],
+    date: Date,
+  ): Promise<ClubWithAvailability[]> {
+    return Promise.all(
+      clubs.map(async (club, clubIndex) => ({
+        ...club,
+        courts: await Promise.all(
+          courts[clubIndex].map(async (court) => ({
+            ...court,
+            available: await this.client.getAvailableSlots(
+              club.id,
+              court.id,
+              date,
+            ),
+          })),
+        ),
+      })),
+    );
+  }
+
+  private async cacheAvailability(
+    placeId: string,
+    formattedDate: string,
+    availability: ClubWithAvailability[],
+  ): Promise<void> {
+    await this.advancedCache.setWithIntelligentTTL(
+      this.advancedCache.generateKey('availability', placeId, formattedDate),
+      availability,
+      'AVAILABILITY',
+      this.advancedCache.generateStaleKey(
+        'availability',
+        placeId,
+        formattedDate,
+      ),
+    );
+  }
+
+  private enumerateDates(from: Date, to: Date): Date[] {
+    const dates: Date[] = [];
+    for (
+      let current = moment(from);
+      !current.isAfter(to, 'day');
+      current = current.clone().add(1, 'day')
+    ) {
+      dates.push(current.toDate());
+    }
+    return dates;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
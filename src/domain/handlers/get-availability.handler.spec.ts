@@ -3,12 +3,23 @@ import { GetAvailabilityHandler } from "./get-availability.handler";
 import { ALQUILA_TU_CANCHA_CLIENT } from "../ports/aquila-tu-cancha.client";
 import { AdvancedCacheService } from "../../infrastructure/services/advanced-cache.service";
 import { HTTPAlquilaTuCanchaClient } from "../../infrastructure/clients/http-alquila-tu-cancha.client";
+import { RequestBatcherService } from '../../infrastructure/services/request-batcher.service';
+import { UpstreamSchedulerService } from '../../infrastructure/services/upstream-scheduler.service';
+import { QueryStatsService } from '../../infrastructure/services/query-stats.service';
+import { PrometheusService } from '../../infrastructure/services/prometheus.service';
+import { TracingService } from '../../infrastructure/services/tracing.service';
+import { SPAN_EXPORTER } from '../ports/span-exporter';
+import { ConfigService } from '@nestjs/config';
+import { CacheStore } from '../ports/cache-store';
+import { RateLimiterService } from '../../infrastructure/services/rate-limiter.service';
 
 describe("GetAvailabilityHandler", () => {
   let handler: GetAvailabilityHandler;
   let client: any;
   let advancedCache: jest.Mocked<AdvancedCacheService>;
   let httpClient: jest.Mocked<HTTPAlquilaTuCanchaClient>;
+  let queryStats: jest.Mocked<QueryStatsService>;
+  let prometheus: PrometheusService;
 
   beforeEach(async () => {
     const mockClient = {
@@ -18,7 +29,7 @@ describe("GetAvailabilityHandler", () => {
     };
 
     const mockAdvancedCache = {
-      getWithFallback: jest.fn(),
+      getWithAge: jest.fn(),
       setWithIntelligentTTL: jest.fn(),
       generateKey: jest.fn(),
       generateStaleKey: jest.fn(),
@@ -27,6 +38,7 @@ describe("GetAvailabilityHandler", () => {
 
     const mockHttpClient = {
       getAvailabilityOptimized: jest.fn(),
+      getRemainingRateBudget: jest.fn().mockReturnValue(60),
       getMetrics: jest.fn(),
     };
 
@@ -45,6 +57,28 @@ describe("GetAvailabilityHandler", () => {
           provide: HTTPAlquilaTuCanchaClient,
           useValue: mockHttpClient,
         },
+        RequestBatcherService,
+        {
+          provide: UpstreamSchedulerService,
+          useValue: { runWithPriority: (_: string, fn: () => unknown) => fn() },
+        },
+        {
+          provide: QueryStatsService,
+          useValue: { record: jest.fn() },
+        },
+        PrometheusService,
+        TracingService,
+        {
+          provide: SPAN_EXPORTER,
+          useValue: {
+            export: jest.fn().mockResolvedValue(undefined),
+            close: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService(),
+        },
       ],
     }).compile();
 
@@ -52,6 +86,8 @@ describe("GetAvailabilityHandler", () => {
     client = module.get(ALQUILA_TU_CANCHA_CLIENT);
     advancedCache = module.get(AdvancedCacheService);
     httpClient = module.get(HTTPAlquilaTuCanchaClient);
+    queryStats = module.get(QueryStatsService);
+    prometheus = module.get(PrometheusService);
   });
 
   it("should be defined", () => {
@@ -62,29 +98,165 @@ describe("GetAvailabilityHandler", () => {
     const query = { placeId: "test-place", date: new Date() };
     const cachedData = [{ id: 1, name: "Test Club", courts: [] }];
 
-    advancedCache.getWithFallback.mockResolvedValue({
+    advancedCache.getWithAge.mockResolvedValue({
       data: cachedData,
       isStale: false,
+      age: 30,
     });
 
     const result = await handler.execute(query);
 
-    expect(result).toEqual(cachedData);
-    expect(advancedCache.getWithFallback).toHaveBeenCalled();
+    expect(result).toEqual({ clubs: cachedData, isStale: false, age: 30 });
+    expect(advancedCache.getWithAge).toHaveBeenCalled();
+    expect(prometheus.render()).toContain(
+      'search_request_duration_seconds_count{outcome="fresh"} 1',
+    );
+  });
+
+  it('should apply filters over cached availability', async () => {
+    const query = {
+      placeId: 'test-place',
+      date: new Date(),
+      filters: { attributes: ['parking'] },
+    };
+    const cachedData = [
+      { id: 1, name: 'Test Club', attributes: ['parking'], courts: [] },
+      { id: 2, name: 'Other Club', attributes: [], courts: [] },
+    ];
+
+    advancedCache.getWithAge.mockResolvedValue({
+      data: cachedData,
+      isStale: false,
+      age: 0,
+    });
+
+    const result = await handler.execute(query);
+
+    expect(result.clubs).toEqual([cachedData[0]]);
+    expect(httpClient.getAvailabilityOptimized).not.toHaveBeenCalled();
   });
 
   it("should return fallback data when fetch fails", async () => {
     const query = { placeId: "test-place", date: new Date() };
     const fallbackData = [{ id: 1, name: "Test Club", courts: [] }];
 
-    advancedCache.getWithFallback
-      .mockResolvedValueOnce({ data: null, isStale: false }) // No cache
-      .mockResolvedValueOnce({ data: fallbackData, isStale: true }); // Fallback
+    advancedCache.getWithAge
+      .mockResolvedValueOnce({ data: null, isStale: false, age: 0 }) // No cache
+      .mockResolvedValueOnce({ data: fallbackData, isStale: true, age: 600 }); // Fallback
 
     httpClient.getAvailabilityOptimized.mockRejectedValue(new Error("API Error"));
 
     const result = await handler.execute(query);
 
-    expect(result).toEqual(fallbackData);
+    expect(result).toEqual({ clubs: fallbackData, isStale: true, age: 600 });
+    expect(prometheus.render()).toContain(
+      'search_request_duration_seconds_count{outcome="fallback"} 1',
+    );
+  });
+
+  it('should record the query for the cache warmer', async () => {
+    const query = { placeId: 'test-place', date: new Date('2022-08-20') };
+    advancedCache.getWithAge.mockResolvedValue({
+      data: [],
+      isStale: false,
+      age: 0,
+    });
+
+    await handler.execute(query);
+
+    expect(queryStats.record).toHaveBeenCalledWith('test-place', '2022-08-20');
+  });
+
+  describe('stale-while-revalidate', () => {
+    const query = { placeId: 'test-place', date: new Date('2022-08-20') };
+    const staleData = [{ id: 1, name: 'Test Club', courts: [] }];
+    const flush = () =>
+      new Promise<void>((resolve) => setImmediate(() => resolve()));
+
+    beforeEach(() => {
+      advancedCache.getWithAge.mockResolvedValue({
+        data: staleData,
+        isStale: true,
+        age: 400,
+      });
+      client.getClubs.mockResolvedValue([]);
+    });
+
+    it('should serve stale data and refresh it once in the background', async () => {
+      const results = await Promise.all([
+        handler.execute(query),
+        handler.execute(query),
+      ]);
+      await flush();
+
+      expect(results[0]).toEqual({ clubs: staleData, isStale: true, age: 400 });
+      expect(client.getClubs).toHaveBeenCalledTimes(1);
+      expect(advancedCache.setWithIntelligentTTL).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh when the rate budget is low', async () => {
+      httpClient.getRemainingRateBudget.mockReturnValue(3);
+
+      await handler.execute(query);
+      await flush();
+
+      expect(client.getClubs).not.toHaveBeenCalled();
+      expect(handler.getMetrics().backgroundRefresh.skipped).toBe(1);
+    });
+
+    it('should refresh again once the shared rate budget recovers', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const rateLimiter = new RateLimiterService(
+        { eval: jest.fn().mockResolvedValue(1) } as unknown as CacheStore,
+        new ConfigService(),
+        prometheus,
+      );
+      httpClient.getRemainingRateBudget.mockImplementation(() =>
+        rateLimiter.getAvailableTokens(),
+      );
+      await rateLimiter.backOff(60000);
+
+      await handler.execute(query);
+      await flush();
+      expect(handler.getMetrics().backgroundRefresh.skipped).toBe(1);
+
+      // 60s para saldar la deuda del 429 y 15s más para recargar 10 tokens
+      clock.mockReturnValue(now + 75000);
+      await handler.execute(query);
+      await flush();
+
+      expect(client.getClubs).toHaveBeenCalledTimes(1);
+      clock.mockRestore();
+    });
+
+    it('should swallow background refresh failures', async () => {
+      client.getClubs.mockRejectedValue(new Error('API Error'));
+
+      const result = await handler.execute(query);
+      await flush();
+
+      expect(result.isStale).toBe(true);
+      expect(handler.getMetrics().backgroundRefresh.failed).toBe(1);
+    });
+
+    it('should wait for background refreshes before shutting down', async () => {
+      let resolveClubs: (clubs: unknown[]) => void = () => undefined;
+      client.getClubs.mockReturnValue(
+        new Promise((resolve) => (resolveClubs = resolve)),
+      );
+
+      await handler.execute(query);
+      await flush();
+
+      let drained = false;
+      const shutdown = handler.onModuleDestroy().then(() => (drained = true));
+      await flush();
+      expect(drained).toBe(false);
+
+      resolveClubs([]);
+      await shutdown;
+      expect(advancedCache.setWithIntelligentTTL).toHaveBeenCalledTimes(1);
+    });
   });
 });
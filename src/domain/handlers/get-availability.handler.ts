@@ -1,47 +1,125 @@
-import { Logger } from '@nestjs/common';
-import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
 import { Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
 
+import { HTTPAlquilaTuCanchaClient } from '../../infrastructure/clients/http-alquila-tu-cancha.client';
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { PrometheusService } from '../../infrastructure/services/prometheus.service';
+import { QueryStatsService } from '../../infrastructure/services/query-stats.service';
+import { RequestBatcherService } from '../../infrastructure/services/request-batcher.service';
+import { TracingService } from '../../infrastructure/services/tracing.service';
+import { UpstreamSchedulerService } from '../../infrastructure/services/upstream-scheduler.service';
 import {
-  ALQUILA_TU_CANCHA_CLIENT,
-  AlquilaTuCanchaClient,
-} from '../ports/aquila-tu-cancha.client';
-import {
+  AvailabilityResult,
   ClubWithAvailability,
   GetAvailabilityQuery,
 } from '../commands/get-availability.query';
-import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
-import { HTTPAlquilaTuCanchaClient } from '../../infrastructure/clients/http-alquila-tu-cancha.client';
+import { filterAvailability } from '../filters/availability.filter';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  AlquilaTuCanchaClient,
+} from '../ports/aquila-tu-cancha.client';
 
 /**
  * Handler optimizado para consultas de disponibilidad con:
  * - Cache inteligente con fallback a datos desactualizados
+ * - Stale-while-revalidate: la copia desactualizada se sirve al instante
+ *   y se refresca en segundo plano
  * - Prefetch de datos relacionados
  * - Manejo graceful de errores
- * - Métricas de rendimiento
+ * - Métricas de rendimiento, con la latencia según el resultado del cache
+ * - Filtros aplicados sobre el resultado cacheado
+ * - Registro de la frecuencia de consultas, usada por el cache warmer
+ * - Al apagar espera las consultas y refrescos en curso, hasta
+ *   `SHUTDOWN_DRAIN_TIMEOUT_MS`
  */
 @QueryHandler(GetAvailabilityQuery)
 export class GetAvailabilityHandler
-  implements IQueryHandler<GetAvailabilityQuery>
+  implements IQueryHandler<GetAvailabilityQuery>, OnModuleDestroy
 {
   private readonly logger = new Logger(GetAvailabilityHandler.name);
 
+  // Requests a la API que se reservan para consultas de usuarios:
+  // por debajo de este margen no se lanzan refrescos en segundo plano
+  private readonly REFRESH_MIN_RATE_BUDGET = 10;
+
+  private refreshMetrics = {
+    scheduled: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  // Consultas y refrescos en curso, que se esperan antes de apagar
+  private readonly inFlight = new Set<Promise<unknown>>();
+  private readonly drainTimeoutMs: number;
+
   constructor(
     @Inject(ALQUILA_TU_CANCHA_CLIENT)
     private readonly client: AlquilaTuCanchaClient,
     private readonly advancedCache: AdvancedCacheService,
     private readonly httpClient: HTTPAlquilaTuCanchaClient,
-  ) {}
+    private readonly requestBatcher: RequestBatcherService,
+    private readonly scheduler: UpstreamSchedulerService,
+    private readonly queryStats: QueryStatsService,
+    private readonly prometheus: PrometheusService,
+    private readonly tracing: TracingService,
+    private readonly configService: ConfigService,
+  ) {
+    this.drainTimeoutMs = Number(
+      this.configService.get<number>('SHUTDOWN_DRAIN_TIMEOUT_MS', 10000),
+    );
+  }
 
-  async execute(query: GetAvailabilityQuery): Promise<ClubWithAvailability[]> {
-    const { placeId, date } = query;
-    const startTime = Date.now();
+  async onModuleDestroy(): Promise<void> {
+    if (this.inFlight.size === 0) {
+      return;
+    }
 
-    this.logger.log(
-      `Processing availability query for place: ${placeId}, date: ${
-        date.toISOString().split('T')[0]
-      }`,
+    this.logger.log(`Draining ${this.inFlight.size} availability requests`);
+    const timeout = new Promise<boolean>((resolve) =>
+      setTimeout(() => resolve(false), this.drainTimeoutMs).unref(),
     );
+    const drained = await Promise.race([
+      Promise.allSettled([...this.inFlight]).then(() => true),
+      timeout,
+    ]);
+
+    if (!drained) {
+      this.logger.warn(
+        `Shutting down with ${this.inFlight.size} availability requests in flight`,
+      );
+    }
+  }
+
+  async execute(query: GetAvailabilityQuery): Promise<AvailabilityResult> {
+    this.queryStats.record(
+      query.placeId,
+      query.date.toISOString().split('T')[0],
+    );
+    const result = await this.track(
+      this.tracing.trace(
+        'availability.query',
+        {
+          placeId: query.placeId,
+          date: query.date.toISOString().split('T')[0],
+        },
+        () => this.getAvailability(query.placeId, query.date),
+      ),
+    );
+    return query.filters
+      ? { ...result, clubs: filterAvailability(result.clubs, query.filters) }
+      : result;
+  }
+
+  private async getAvailability(
+    placeId: string,
+    date: Date,
+  ): Promise<AvailabilityResult> {
+    const startTime = Date.now();
+    const logFields = { placeId, date: date.toISOString().split('T')[0] };
+
+    this.logger.log({ msg: 'Processing availability query', ...logFields });
 
     try {
       const availabilityResult = await this.getCachedAvailability(
@@ -50,7 +128,17 @@ export class GetAvailabilityHandler
       );
       if (availabilityResult) {
         const duration = Date.now() - startTime;
-        this.logger.log(`Cache hit for availability query (${duration}ms)`);
+        const outcome = availabilityResult.isStale ? 'stale' : 'fresh';
+        this.logger.log({
+          msg: 'Availability query served from cache',
+          ...logFields,
+          outcome,
+          durationMs: duration,
+        });
+        this.observeSearch(outcome, duration);
+        if (availabilityResult.isStale) {
+          this.scheduleRefresh(placeId, date);
+        }
         return availabilityResult;
       }
 
@@ -62,23 +150,43 @@ export class GetAvailabilityHandler
       await this.cacheAvailabilityResult(placeId, date, optimizedData);
 
       const duration = Date.now() - startTime;
-      this.logger.log(`Availability query completed (${duration}ms)`);
+      this.logger.log({
+        msg: 'Availability query completed',
+        ...logFields,
+        outcome: 'miss',
+        durationMs: duration,
+      });
+      this.observeSearch('miss', duration);
 
-      return optimizedData;
+      return { clubs: optimizedData, isStale: false, age: 0 };
     } catch (error: any) {
       const duration = Date.now() - startTime;
       this.logger.error(
-        `Error fetching availability after ${duration}ms: ${error.message}`,
+        {
+          msg: `Error fetching availability: ${error.message}`,
+          ...logFields,
+          durationMs: duration,
+        },
         error.stack,
       );
-      return this.getFallbackAvailability(placeId, date);
+      const fallback = await this.getFallbackAvailability(placeId, date);
+      this.observeSearch('fallback', Date.now() - startTime);
+      return fallback;
     }
   }
 
+  private observeSearch(
+    outcome: 'fresh' | 'stale' | 'miss' | 'fallback',
+    durationMs: number,
+  ): void {
+    this.prometheus.searchDuration.observe({ outcome }, durationMs / 1000);
+    this.tracing.annotate({ outcome });
+  }
+
   private async getCachedAvailability(
     placeId: string,
     date: Date,
-  ): Promise<ClubWithAvailability[] | null> {
+  ): Promise<AvailabilityResult | null> {
     const cacheKey = this.advancedCache.generateKey(
       'availability',
       placeId,
@@ -90,7 +198,7 @@ export class GetAvailabilityHandler
       date.toISOString().split('T')[0],
     );
 
-    const { data, isStale } = await this.advancedCache.getWithFallback<
+    const { data, isStale, age } = await this.advancedCache.getWithAge<
       ClubWithAvailability[]
     >(cacheKey, staleKey);
 
@@ -98,12 +206,68 @@ export class GetAvailabilityHandler
       if (isStale) {
         this.logger.warn(`Using stale availability data for place: ${placeId}`);
       }
-      return data;
+      return { clubs: data, isStale, age };
     }
 
     return null;
   }
 
+  /**
+   * Refresca en segundo plano una entrada desactualizada. El batcher
+   * deduplica los refrescos concurrentes de la misma zona y fecha.
+   * También lo usan las consultas por rango para sus días desactualizados.
+   */
+  scheduleRefresh(placeId: string, date: Date): void {
+    const dateKey = date.toISOString().split('T')[0];
+
+    if (
+      this.httpClient.getRemainingRateBudget() < this.REFRESH_MIN_RATE_BUDGET
+    ) {
+      this.refreshMetrics.skipped++;
+      this.logger.debug(
+        `Skipping background refresh for ${placeId} ${dateKey}: low rate budget`,
+      );
+      return;
+    }
+
+    this.refreshMetrics.scheduled++;
+    this.track(
+      this.scheduler.runWithPriority('refresh', () =>
+        this.refreshAvailability(placeId, date),
+      ),
+    ).catch((error: any) => {
+      this.refreshMetrics.failed++;
+      this.logger.warn(
+        `Background refresh failed for ${placeId} ${dateKey}: ${error.message}`,
+      );
+    });
+  }
+
+  private track<T>(promise: Promise<T>): Promise<T> {
+    this.inFlight.add(promise);
+    promise.then(
+      () => this.inFlight.delete(promise),
+      () => this.inFlight.delete(promise),
+    );
+    return promise;
+  }
+
+  /**
+   * Consulta la API y reemplaza la disponibilidad cacheada de la zona y
+   * fecha. El batcher deduplica los refrescos concurrentes.
+   */
+  async refreshAvailability(placeId: string, date: Date): Promise<void> {
+    const dateKey = date.toISOString().split('T')[0];
+    await this.requestBatcher.executeBatched(
+      `refresh:availability:${placeId}:${dateKey}`,
+      async () => {
+        const data = await this.fetchOptimizedAvailability(placeId, date);
+        await this.cacheAvailabilityResult(placeId, date, data);
+        this.logger.debug(`Refreshed availability for ${placeId} ${dateKey}`);
+      },
+    );
+  }
+
   private async fetchOptimizedAvailability(
     placeId: string,
     date: Date,
@@ -173,39 +337,36 @@ export class GetAvailabilityHandler
   private async getFallbackAvailability(
     placeId: string,
     date: Date,
-  ): Promise<ClubWithAvailability[]> {
+  ): Promise<AvailabilityResult> {
     this.logger.warn(
       `Attempting fallback for place: ${placeId}, date: ${
         date.toISOString().split('T')[0]
       }`,
     );
 
+    const empty = { clubs: [], isStale: false, age: 0 };
     try {
-      const staleKey = this.advancedCache.generateStaleKey(
-        'availability',
-        placeId,
-        date.toISOString().split('T')[0],
-      );
-      const staleData = await this.advancedCache.getWithFallback<
-        ClubWithAvailability[]
-      >(staleKey);
+      const cached = await this.getCachedAvailability(placeId, date);
 
-      if (staleData.data) {
+      if (cached) {
         this.logger.warn(`Using stale fallback data for place: ${placeId}`);
-        return staleData.data;
+        return cached;
       }
       this.logger.error(`No fallback data available for place: ${placeId}`);
-      return [];
+      return empty;
     } catch (error) {
       this.logger.error(`Fallback failed for place: ${placeId}:`, error);
-      return [];
+      return empty;
     }
   }
 
   /**
-   * Método para invalidar cache cuando llegan eventos
+   * Método para invalidar cache cuando llegan eventos.
+   * Devuelve la cantidad de claves eliminadas; rechaza si no se pudieron
+   * eliminar, así el evento se reintenta.
    */
-  async invalidateCacheForPlace(placeId: string, date?: Date): Promise<void> {
+  async invalidateCacheForPlace(placeId: string, date?: Date): Promise<number> {
+    let invalidated = 0;
     try {
       if (date) {
         const cacheKey = this.advancedCache.generateKey(
@@ -219,21 +380,24 @@ export class GetAvailabilityHandler
           date.toISOString().split('T')[0],
         );
 
-        await this.advancedCache.invalidateByPattern(cacheKey);
-        await this.advancedCache.invalidateByPattern(staleKey);
+        invalidated = await this.advancedCache.invalidate(cacheKey, staleKey);
       } else {
-        await this.advancedCache.invalidateByPattern(
+        invalidated = await this.advancedCache.invalidateByPattern(
           `availability:${placeId}:*`,
         );
       }
 
-      this.logger.debug(`Invalidated availability cache for place: ${placeId}`);
+      this.logger.debug(
+        `Invalidated ${invalidated} availability keys for place: ${placeId}`,
+      );
     } catch (error) {
       this.logger.error(
         `Error invalidating cache for place: ${placeId}:`,
         error,
       );
+      throw error;
     }
+    return invalidated;
   }
 
   /**
@@ -246,6 +410,7 @@ export class GetAvailabilityHandler
           ? this.httpClient.getMetrics()
           : null,
       cache: this.advancedCache,
+      backgroundRefresh: { ...this.refreshMetrics },
     };
   }
 }
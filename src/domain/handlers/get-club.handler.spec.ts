@@ -0,0 +1,84 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { GetClubQuery } from '../commands/get-club.query';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  ResourceNotFoundError,
+} from '../ports/aquila-tu-cancha.client';
+import { GetClubHandler } from './get-club.handler';
+
+describe('GetClubHandler', () => {
+  let handler: GetClubHandler;
+  let client: any;
+  let advancedCache: any;
+
+  beforeEach(async () => {
+    const mockClient = {
+      getClub: jest.fn(),
+    };
+
+    const mockAdvancedCache = {
+      generateKey: jest.fn((...parts) => parts.join(':')),
+      generateStaleKey: jest.fn(
+        (type, ...parts) => `${type}:stale:${parts.join(':')}`,
+      ),
+      getOrLoad: jest.fn((_key, _staleKey, load, useStale) =>
+        load().catch((error: unknown) => {
+          if (useStale(error)) {
+            return { id: 166, name: 'Stale Club' };
+          }
+          throw error;
+        }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GetClubHandler,
+        {
+          provide: ALQUILA_TU_CANCHA_CLIENT,
+          useValue: mockClient,
+        },
+        {
+          provide: AdvancedCacheService,
+          useValue: mockAdvancedCache,
+        },
+      ],
+    }).compile();
+
+    handler = module.get<GetClubHandler>(GetClubHandler);
+    client = module.get(ALQUILA_TU_CANCHA_CLIENT);
+    advancedCache = module.get(AdvancedCacheService);
+  });
+
+  it('should read the club through the cache', async () => {
+    client.getClub.mockResolvedValue({ id: 166, name: 'Club' });
+
+    const club = await handler.execute(new GetClubQuery(166));
+
+    expect(club).toEqual({ id: 166, name: 'Club' });
+    expect(advancedCache.getOrLoad).toHaveBeenCalledWith(
+      'club:166',
+      'club:stale:166',
+      expect.any(Function),
+      expect.any(Function),
+    );
+  });
+
+  it('should serve the stale copy when the API fails', async () => {
+    client.getClub.mockRejectedValue(new Error('API Error'));
+
+    const club = await handler.execute(new GetClubQuery(166));
+
+    expect(club).toEqual({ id: 166, name: 'Stale Club' });
+  });
+
+  it('should not serve stale data for clubs that no longer exist', async () => {
+    client.getClub.mockRejectedValue(new ResourceNotFoundError('Club 166'));
+
+    await expect(handler.execute(new GetClubQuery(166))).rejects.toBeInstanceOf(
+      ResourceNotFoundError,
+    );
+  });
+});
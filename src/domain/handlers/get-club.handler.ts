@@ -0,0 +1,34 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { GetClubQuery } from '../commands/get-club.query';
+import { Club } from '../model/club';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  AlquilaTuCanchaClient,
+  ResourceNotFoundError,
+} from '../ports/aquila-tu-cancha.client';
+
+/**
+ * Detalle de un club, servido del cache mientras esté fresco.
+ * Si la API falla se usa la copia desactualizada, salvo que el club
+ * ya no exista.
+ */
+@QueryHandler(GetClubQuery)
+export class GetClubHandler implements IQueryHandler<GetClubQuery> {
+  constructor(
+    @Inject(ALQUILA_TU_CANCHA_CLIENT)
+    private readonly client: AlquilaTuCanchaClient,
+    private readonly advancedCache: AdvancedCacheService,
+  ) {}
+
+  execute({ clubId }: GetClubQuery): Promise<Club> {
+    return this.advancedCache.getOrLoad(
+      this.advancedCache.generateKey('club', clubId),
+      this.advancedCache.generateStaleKey('club', clubId),
+      () => this.client.getClub(clubId),
+      (error) => !(error instanceof ResourceNotFoundError),
+    );
+  }
+}
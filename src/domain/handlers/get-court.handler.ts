@@ -0,0 +1,32 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { GetCourtQuery } from '../commands/get-court.query';
+import { Court } from '../model/court';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  AlquilaTuCanchaClient,
+  ResourceNotFoundError,
+} from '../ports/aquila-tu-cancha.client';
+
+/**
+ * Detalle de una cancha, con la misma estrategia de cache que GetClubHandler
+ */
+@QueryHandler(GetCourtQuery)
+export class GetCourtHandler implements IQueryHandler<GetCourtQuery> {
+  constructor(
+    @Inject(ALQUILA_TU_CANCHA_CLIENT)
+    private readonly client: AlquilaTuCanchaClient,
+    private readonly advancedCache: AdvancedCacheService,
+  ) {}
+
+  execute({ clubId, courtId }: GetCourtQuery): Promise<Court> {
+    return this.advancedCache.getOrLoad(
+      this.advancedCache.generateKey('court', clubId, courtId),
+      this.advancedCache.generateStaleKey('court', clubId, courtId),
+      () => this.client.getCourt(clubId, courtId),
+      (error) => !(error instanceof ResourceNotFoundError),
+    );
+  }
+}
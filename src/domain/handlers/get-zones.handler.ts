@@ -0,0 +1,31 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+
+import { AdvancedCacheService } from '../../infrastructure/services/advanced-cache.service';
+import { GetZonesQuery } from '../commands/get-zones.query';
+import { Zone } from '../model/zone';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  AlquilaTuCanchaClient,
+} from '../ports/aquila-tu-cancha.client';
+
+/**
+ * Catálogo de zonas: se sirve del cache y solo se consulta la API
+ * cuando expira, con fallback a la copia desactualizada
+ */
+@QueryHandler(GetZonesQuery)
+export class GetZonesHandler implements IQueryHandler<GetZonesQuery> {
+  constructor(
+    @Inject(ALQUILA_TU_CANCHA_CLIENT)
+    private readonly client: AlquilaTuCanchaClient,
+    private readonly advancedCache: AdvancedCacheService,
+  ) {}
+
+  execute(): Promise<Zone[]> {
+    return this.advancedCache.getOrLoad(
+      this.advancedCache.generateKey('zones', 'all'),
+      this.advancedCache.generateStaleKey('zones', 'all'),
+      () => this.client.getZones(),
+    );
+  }
+}
@@ -1,4 +1,26 @@
+import { Location } from './location';
+import { OpenHours } from './open-hours';
+import { Zone } from './zone';
+
+export interface ClubProps {
+  sponsor: boolean;
+  favorite: boolean;
+  stars: string;
+  payment: boolean;
+}
+
 export interface Club {
   id: number;
-  // TODO: fill
+  permalink: string;
+  name: string;
+  logo: string;
+  logo_url: string;
+  background: string;
+  background_url: string;
+  location: Location;
+  zone: Zone;
+  props: ClubProps;
+  attributes: string[];
+  openhours: OpenHours[];
+  _priority: number;
 }
@@ -1,4 +1,15 @@
+import { Sport } from './sport';
+
+export interface CourtAttributes {
+  floor: string;
+  light: boolean;
+  roofed: boolean;
+  beelup: boolean;
+}
+
 export interface Court {
   id: number;
-  // TODO: fill
+  name: string;
+  attributes: CourtAttributes;
+  sports: Sport[];
 }
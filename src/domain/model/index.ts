@@ -1,3 +1,7 @@
 export * from './club';
 export * from './court';
+export * from './location';
+export * from './open-hours';
 export * from './slot';
+export * from './sport';
+export * from './zone';
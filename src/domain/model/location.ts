@@ -0,0 +1,6 @@
+export interface Location {
+  name: string;
+  city: string;
+  lat: string;
+  lng: string;
+}
@@ -0,0 +1,6 @@
+export interface OpenHours {
+  day_of_week: number;
+  open_time: number;
+  close_time: number;
+  open: boolean;
+}
@@ -0,0 +1,17 @@
+export interface SportPivot {
+  court_id: number;
+  sport_id: number;
+  enabled: number;
+}
+
+export interface Sport {
+  id: number;
+  parent_id: number | null;
+  name: string;
+  players_max: number;
+  order: number;
+  default_duration: number;
+  divisible_duration: number;
+  icon: string;
+  pivot?: SportPivot;
+}
@@ -0,0 +1,13 @@
+export interface Country {
+  id: number;
+  name: string;
+  iso_code: string;
+}
+
+export interface Zone {
+  id: number;
+  name: string;
+  full_name: string;
+  placeid: string;
+  country: Country;
+}
@@ -1,11 +1,26 @@
 import { Club } from '../model/club';
 import { Court } from '../model/court';
 import { Slot } from '../model/slot';
+import { Zone } from '../model/zone';
 
 export const ALQUILA_TU_CANCHA_CLIENT = 'ALQUILA_TU_CANCHA_CLIENT';
+
+/**
+ * El club o la cancha pedida no existe en la API
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(readonly resource: string) {
+    super(`${resource} not found`);
+    this.name = ResourceNotFoundError.name;
+  }
+}
+
 export interface AlquilaTuCanchaClient {
+  getZones(): Promise<Zone[]>;
   getClubs(placeId: string): Promise<Club[]>;
+  getClub(clubId: number): Promise<Club>;
   getCourts(clubId: number): Promise<Court[]>;
+  getCourt(clubId: number, courtId: number): Promise<Court>;
   getAvailableSlots(
     clubId: number,
     courtId: number,
@@ -0,0 +1,56 @@
+export const CACHE_STORE = 'CACHE_STORE';
+
+export type CacheStoreBackend = 'redis' | 'memory';
+
+export interface CacheStoreMetrics {
+  backend: CacheStoreBackend;
+  hits: number;
+  misses: number;
+  errors: number;
+  operations: number;
+  hitRate: string;
+  [extra: string]: unknown;
+}
+
+/**
+ * Almacenamiento clave/valor usado por el cache.
+ * Los TTL se expresan en segundos y los patrones usan la sintaxis glob de Redis.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttl?: number): Promise<boolean>;
+  /** Guarda la clave solo si no existe. Devuelve false si ya existía */
+  setIfAbsent(key: string, value: string, ttl: number): Promise<boolean>;
+  /**
+   * Incrementa un contador numérico (lo crea en 0 si no existe), renovando su
+   * expiración si se especifica. Devuelve el nuevo valor o null si falla
+   */
+  incr(key: string, ttl?: number): Promise<number | null>;
+  mget(keys: string[]): Promise<(string | null)[]>;
+  mset(keyValuePairs: Record<string, string>): Promise<boolean>;
+  /** TTL restante en segundos (-1 sin expiración, -2 si no existe) */
+  ttl(key: string): Promise<number>;
+  /** Devuelve la cantidad de claves eliminadas */
+  unlink(keys: string[]): Promise<number>;
+  /** Devuelve la cantidad de claves eliminadas */
+  deleteByPattern(pattern: string): Promise<number>;
+  sadd(key: string, members: string[], ttl?: number): Promise<boolean>;
+  smembers(key: string): Promise<string[]>;
+  /** Publica un mensaje para todas las instancias suscriptas al canal */
+  publish(channel: string, message: string): Promise<boolean>;
+  subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void>;
+  /**
+   * Ejecuta un script Lua de forma atómica. Opcional: solo lo implementan los
+   * backends compartidos entre instancias. Devuelve null si no está disponible.
+   */
+  eval?(
+    script: string,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<unknown>;
+  getMetrics(): CacheStoreMetrics;
+  isHealthy(): boolean;
+}
@@ -0,0 +1,37 @@
+export const EVENT_LOG = 'EVENT_LOG';
+
+export interface EventLogEntry {
+  id: string;
+  payload: string;
+}
+
+export interface DeadLetter extends EventLogEntry {
+  reason: string;
+  attempts: number;
+  failedAt: string;
+}
+
+/**
+ * Log durable de eventos entrantes:
+ * - Las entradas se entregan en orden de llegada
+ * - Una entrada leída y no confirmada se vuelve a entregar tras un reinicio
+ * - Las que no se pudieron procesar pasan a una cola de eventos fallidos
+ * - Se conserva un historial de entradas confirmadas para poder reprocesarlas
+ */
+export interface EventLog {
+  /** Persiste el payload y devuelve el id de la entrada. Rechaza si no pudo persistirse */
+  append(payload: string): Promise<string>;
+  /** Próximas entradas sin confirmar, esperando hasta `blockMs` si no hay ninguna */
+  read(count: number, blockMs: number): Promise<EventLogEntry[]>;
+  ack(id: string): Promise<void>;
+  /** Guarda la entrada en la cola de eventos fallidos y la confirma */
+  deadLetter(letter: DeadLetter): Promise<void>;
+  /** Entradas recibidas desde `since` (hasta `until`), confirmadas o no, en orden de llegada */
+  history(
+    since: Date,
+    until: Date | undefined,
+    count: number,
+  ): Promise<EventLogEntry[]>;
+  getMetrics(): Record<string, unknown>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,24 @@
+export const SPAN_EXPORTER = 'SPAN_EXPORTER';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentId: string | null;
+  name: string;
+  startTime: string;
+  durationMs: number;
+  status: 'ok' | 'error';
+  error?: string;
+  attributes: SpanAttributes;
+}
+
+/**
+ * Destino de los spans terminados (consola, archivo, un colector...).
+ * Un error al exportar nunca debe afectar al request trazado.
+ */
+export interface SpanExporter {
+  export(span: SpanRecord): Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,123 @@
+import {
+  ClubSchema,
+  CourtSchema,
+  SlotSchema,
+} from '../alquila-tu-cancha.schemas';
+
+describe('AlquilaTuCancha schemas', () => {
+  const club = {
+    id: 166,
+    permalink: 'loyal-rosario',
+    name: 'Loyal Chacabuco',
+    logo: 'loyal-rosario.png',
+    logo_url: 'http://beta.alquilatucancha.com/uploads/clubs/loyal-rosario.png',
+    background: 'loyal-rosario.jpeg',
+    background_url:
+      'http://beta.alquilatucancha.com/uploads/clubs/bg/loyal-rosario.jpeg',
+    location: {
+      name: 'Chacabuco 1939',
+      city: 'Rosario',
+      lat: '-32.9630067',
+      lng: '-60.6262701',
+    },
+    zone: {
+      id: 20,
+      name: 'Rosario',
+      full_name: 'Rosario, Santa Fe, Argentina',
+      placeid: 'ChIJW9fXNZNTtpURV6VYAumGQOw',
+      country: { id: 1, name: 'Argentina', iso_code: 'ar' },
+    },
+    props: { sponsor: false, favorite: false, stars: '5.00', payment: false },
+    attributes: ['showers', 'parking', 'grill'],
+    openhours: [{ day_of_week: 6, open_time: 9, close_time: 24, open: true }],
+    _priority: 1,
+  };
+
+  const court = {
+    id: 733,
+    name: 'Cancha 1',
+    attributes: {
+      floor: 'synthetic',
+      light: true,
+      roofed: true,
+      beelup: false,
+    },
+    sports: [
+      {
+        id: 2,
+        parent_id: 1,
+        name: 'FOOTBALL5',
+        players_max: 10,
+        order: 0,
+        default_duration: 60,
+        divisible_duration: 30,
+        icon: 'football5.png',
+        pivot: { court_id: 733, sport_id: 2, enabled: 1 },
+      },
+    ],
+  };
+
+  const slot = {
+    price: 4000,
+    duration: 60,
+    datetime: '2022-08-20 09:00',
+    start: '09:00',
+    end: '10:00',
+    _priority: 0,
+  };
+
+  describe('ClubSchema', () => {
+    it('should accept a club as returned by the API', () => {
+      expect(ClubSchema.parse(club)).toEqual(club);
+    });
+
+    it('should keep attributes not declared in the schema', () => {
+      const result = ClubSchema.parse({ ...club, extra: 'value' });
+
+      expect(result).toHaveProperty('extra', 'value');
+    });
+
+    it('should reject a club without zone', () => {
+      const { zone, ...withoutZone } = club;
+
+      expect(zone).toBeDefined();
+      expect(ClubSchema.safeParse(withoutZone).success).toBe(false);
+    });
+
+    it('should reject invalid open hours', () => {
+      const result = ClubSchema.safeParse({
+        ...club,
+        openhours: [{ day_of_week: 9, open_time: 9, close_time: 24 }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('CourtSchema', () => {
+    it('should accept a court as returned by the API', () => {
+      expect(CourtSchema.parse(court)).toEqual(court);
+    });
+
+    it('should reject sports without durations', () => {
+      const result = CourtSchema.safeParse({
+        ...court,
+        sports: [{ ...court.sports[0], default_duration: undefined }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('SlotSchema', () => {
+    it('should accept a slot as returned by the API', () => {
+      expect(SlotSchema.parse(slot)).toEqual(slot);
+    });
+
+    it('should reject malformed datetimes', () => {
+      const result = SlotSchema.safeParse({ ...slot, datetime: '20/08/2022' });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileEventLog } from '../file-event-log';
+
+describe('FileEventLog', () => {
+  let directory: string;
+  let config: ConfigService;
+
+  const open = () => new FileEventLog(config);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'event-log-'));
+    config = new ConfigService({
+      EVENT_LOG_PATH: join(directory, 'events.log'),
+      EVENT_LOG_COMPACT_THRESHOLD: 4,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should deliver entries in order and only once', async () => {
+    const log = open();
+    const first = await log.append('a');
+    const second = await log.append('b');
+
+    expect(await log.read(10, 0)).toEqual([
+      { id: first, payload: 'a' },
+      { id: second, payload: 'b' },
+    ]);
+    expect(await log.read(10, 0)).toEqual([]);
+  });
+
+  it('should redeliver unacknowledged entries after a restart', async () => {
+    const log = open();
+    const first = await log.append('a');
+    const second = await log.append('b');
+    await log.read(10, 0);
+    await log.ack(first);
+    await log.close();
+
+    expect(await open().read(10, 0)).toEqual([{ id: second, payload: 'b' }]);
+  });
+
+  it('should wake up a blocked read when an entry is appended', async () => {
+    const log = open();
+    const read = log.read(10, 60000);
+
+    const id = await log.append('a');
+
+    expect(await read).toEqual([{ id, payload: 'a' }]);
+  });
+
+  it('should keep dead letters apart from the log', async () => {
+    const log = open();
+    const id = await log.append('a');
+    await log.deadLetter({
+      id,
+      payload: 'a',
+      reason: 'boom',
+      attempts: 5,
+      failedAt: '2022-08-20T10:00:00.000Z',
+    });
+
+    const deadLetters = await fs.readFile(
+      join(directory, 'events.log.dead'),
+      'utf8',
+    );
+    expect(JSON.parse(deadLetters)).toMatchObject({ id, reason: 'boom' });
+    expect(await open().read(10, 0)).toEqual([]);
+  });
+
+  it('should keep acknowledged entries as history', async () => {
+    const log = open();
+    const first = await log.append('a');
+    await log.append('b');
+    await log.read(10, 0);
+    await log.ack(first);
+
+    expect(
+      (await open().history(new Date(0), undefined, 10)).map(
+        (entry) => entry.payload,
+      ),
+    ).toEqual(['a', 'b']);
+    expect(
+      await log.history(new Date(Date.now() + 1000), undefined, 10),
+    ).toEqual([]);
+  });
+
+  it('should compact entries beyond the retention', async () => {
+    config = new ConfigService({
+      EVENT_LOG_PATH: join(directory, 'events.log'),
+      EVENT_LOG_COMPACT_THRESHOLD: 1,
+      EVENT_LOG_RETENTION: 1,
+    });
+    const log = open();
+    const ids = [await log.append('a'), await log.append('b')];
+    await log.append('c');
+    for (const id of ids) {
+      await log.ack(id);
+    }
+
+    const lines = (await fs.readFile(join(directory, 'events.log'), 'utf8'))
+      .trim()
+      .split('\n');
+    expect(lines).toHaveLength(3);
+    expect(log.getMetrics().compactions).toBe(1);
+
+    const reopened = open();
+    expect(await reopened.read(10, 0)).toEqual([
+      expect.objectContaining({ payload: 'c' }),
+    ]);
+    expect(
+      (await reopened.history(new Date(0), undefined, 10)).map(
+        (entry) => entry.payload,
+      ),
+    ).toEqual(['b', 'c']);
+  });
+});
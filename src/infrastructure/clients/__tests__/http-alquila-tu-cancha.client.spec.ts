@@ -0,0 +1,196 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosError, AxiosResponse } from 'axios';
+
+import { ResourceNotFoundError } from '../../../domain/ports/aquila-tu-cancha.client';
+import { AdvancedCacheService } from '../../services/advanced-cache.service';
+import { CacheIndexService } from '../../services/cache-index.service';
+import { CircuitBreakerService } from '../../services/circuit-breaker.service';
+import { L1CacheService } from '../../services/l1-cache.service';
+import { PrometheusService } from '../../services/prometheus.service';
+import { RateLimiterService } from '../../services/rate-limiter.service';
+import { RequestBatcherService } from '../../services/request-batcher.service';
+import { TracingService } from '../../services/tracing.service';
+import { UpstreamSchedulerService } from '../../services/upstream-scheduler.service';
+import { ConsoleSpanExporter } from '../console-span-exporter';
+import { HTTPAlquilaTuCanchaClient } from '../http-alquila-tu-cancha.client';
+import { InMemoryCacheService } from '../in-memory-cache.service';
+
+describe('HTTPAlquilaTuCanchaClient', () => {
+  const date = new Date('2022-08-20T00:00:00.000Z');
+
+  let client: HTTPAlquilaTuCanchaClient;
+  let get: jest.Mock;
+  let cacheStore: InMemoryCacheService;
+  let circuitBreaker: CircuitBreakerService;
+  let rateLimiter: { acquire: jest.Mock; backOff: jest.Mock };
+  let delay: jest.SpyInstance;
+
+  const httpError = (status: number, headers: Record<string, string> = {}) =>
+    new AxiosError(
+      `Request failed with status code ${status}`,
+      'ERR_BAD_RESPONSE',
+      {},
+      {},
+      { status, headers, data: null } as AxiosResponse,
+    );
+  const networkError = () =>
+    new AxiosError('connect ECONNREFUSED 127.0.0.1:4000', 'ECONNREFUSED');
+  const ok = (data: unknown) => ({ status: 200, data });
+
+  beforeEach(() => {
+    const config = new ConfigService({
+      ATC_BASE_URL: 'http://localhost:4000',
+      CIRCUIT_BREAKER_FAILURE_THRESHOLD: 2,
+      UPSTREAM_MAX_RETRIES: 2,
+      UPSTREAM_RETRY_BASE_DELAY_MS: 100,
+      TRACE_SAMPLE_RATE: 0,
+    });
+    const tracing = new TracingService(new ConsoleSpanExporter(), config);
+    cacheStore = new InMemoryCacheService(config);
+    circuitBreaker = new CircuitBreakerService(config, tracing);
+    get = jest.fn();
+    rateLimiter = {
+      acquire: jest.fn().mockResolvedValue(undefined),
+      backOff: jest.fn().mockResolvedValue(undefined),
+    };
+
+    client = new HTTPAlquilaTuCanchaClient(
+      { axiosRef: { get } } as unknown as HttpService,
+      config,
+      cacheStore,
+      new AdvancedCacheService(
+        cacheStore,
+        new L1CacheService(cacheStore, config),
+        new PrometheusService(),
+        tracing,
+      ),
+      new CacheIndexService(cacheStore),
+      circuitBreaker,
+      {
+        executeBatched: (_key: string, fn: () => Promise<unknown>) => fn(),
+      } as unknown as RequestBatcherService,
+      rateLimiter as unknown as RateLimiterService,
+      {
+        schedule: (_key: string, task: () => Promise<unknown>) => task(),
+      } as unknown as UpstreamSchedulerService,
+      new PrometheusService(),
+      tracing,
+    );
+    delay = jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getAvailableSlots', () => {
+    it('should take a 404 as a court without free slots', async () => {
+      get.mockRejectedValue(httpError(404));
+
+      await expect(client.getAvailableSlots(166, 733, date)).resolves.toEqual(
+        [],
+      );
+      expect(await cacheStore.get('slots:166:733:2022-08-20')).toBe('[]');
+      expect(circuitBreaker.get('slots').getState()).toBe('CLOSED');
+    });
+
+    it('should keep the breaker closed on repeated 404s', async () => {
+      get.mockRejectedValue(httpError(404));
+
+      for (const courtId of [733, 734, 735]) {
+        await client.getAvailableSlots(166, courtId, date);
+      }
+
+      expect(get).toHaveBeenCalledTimes(3);
+      expect(circuitBreaker.get('slots').getState()).toBe('CLOSED');
+    });
+  });
+
+  describe('retries', () => {
+    it('should back off for Retry-After on a 429 and retry', async () => {
+      get
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+        .mockResolvedValueOnce(ok([]));
+
+      await expect(client.getAvailableSlots(166, 733, date)).resolves.toEqual(
+        [],
+      );
+      expect(rateLimiter.backOff).toHaveBeenCalledWith(2000);
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(delay).not.toHaveBeenCalled();
+    });
+
+    it('should retry a 5xx with exponential backoff and jitter', async () => {
+      get
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(502))
+        .mockResolvedValueOnce(ok([]));
+
+      await client.getAvailableSlots(166, 733, date);
+
+      expect(get).toHaveBeenCalledTimes(3);
+      // base 100ms * 2^intento, con jitter entre el 50% y el 100%
+      expect(delay.mock.calls).toEqual([[75], [150]]);
+    });
+
+    it('should retry network errors', async () => {
+      get.mockRejectedValueOnce(networkError()).mockResolvedValueOnce(ok([]));
+
+      await expect(client.getAvailableSlots(166, 733, date)).resolves.toEqual(
+        [],
+      );
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      get.mockRejectedValue(httpError(503));
+
+      await expect(client.getAvailableSlots(166, 733, date)).rejects.toThrow();
+      expect(get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry other 4xx errors', async () => {
+      get.mockRejectedValue(httpError(400));
+
+      await expect(client.getAvailableSlots(166, 733, date)).rejects.toThrow();
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(delay).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should not count 429s as failures', async () => {
+      get.mockRejectedValue(httpError(429));
+
+      for (const courtId of [733, 734, 735]) {
+        await client.getAvailableSlots(166, courtId, date).catch(() => null);
+      }
+
+      expect(get).toHaveBeenCalledTimes(9);
+      expect(circuitBreaker.get('slots').getState()).toBe('CLOSED');
+    });
+
+    it('should open after repeated 5xx', async () => {
+      get.mockRejectedValue(httpError(503));
+
+      for (const courtId of [733, 734, 735]) {
+        await client.getAvailableSlots(166, courtId, date).catch(() => null);
+      }
+
+      expect(get).toHaveBeenCalledTimes(6);
+      expect(circuitBreaker.get('slots').getState()).toBe('OPEN');
+    });
+  });
+
+  describe('getClub', () => {
+    it('should map a 404 to ResourceNotFoundError', async () => {
+      get.mockRejectedValue(httpError(404));
+
+      await expect(client.getClub(999)).rejects.toBeInstanceOf(
+        ResourceNotFoundError,
+      );
+    });
+  });
+});
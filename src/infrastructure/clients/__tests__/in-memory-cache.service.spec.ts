@@ -0,0 +1,102 @@
+import { ConfigService } from '@nestjs/config';
+
+import { InMemoryCacheService } from '../in-memory-cache.service';
+
+describe('InMemoryCacheService', () => {
+  let service: InMemoryCacheService;
+  let clock: jest.SpyInstance<number, []>;
+  const now = Date.now();
+
+  beforeEach(() => {
+    clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    service = new InMemoryCacheService(
+      new ConfigService({ CACHE_MEMORY_MAX_ENTRIES: 3 }),
+    );
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  it('should expire entries once their TTL elapses', async () => {
+    await service.set('key', 'value', 10);
+    expect(await service.ttl('key')).toBe(10);
+
+    clock.mockReturnValue(now + 10 * 1000);
+
+    expect(await service.get('key')).toBeNull();
+    expect(await service.ttl('key')).toBe(-2);
+  });
+
+  it('should report -1 for entries without expiration', async () => {
+    await service.set('key', 'value');
+
+    expect(await service.ttl('key')).toBe(-1);
+  });
+
+  it('should only set absent keys', async () => {
+    expect(await service.setIfAbsent('key', 'first', 10)).toBe(true);
+    expect(await service.setIfAbsent('key', 'second', 10)).toBe(false);
+    expect(await service.get('key')).toBe('first');
+
+    clock.mockReturnValue(now + 10 * 1000);
+
+    expect(await service.setIfAbsent('key', 'third', 10)).toBe(true);
+  });
+
+  it('should increment counters and renew their TTL', async () => {
+    expect(await service.incr('counter', 10)).toBe(1);
+    expect(await service.incr('counter')).toBe(2);
+
+    clock.mockReturnValue(now + 5 * 1000);
+    expect(await service.incr('counter', 10)).toBe(3);
+    expect(await service.ttl('counter')).toBe(10);
+
+    await service.set('text', 'value');
+    expect(await service.incr('text')).toBeNull();
+  });
+
+  it('should evict the least recently used entry', async () => {
+    await service.mset({ a: '1', b: '2', c: '3' });
+    await service.get('a');
+
+    await service.set('d', '4');
+
+    expect(await service.mget(['a', 'b', 'c', 'd'])).toEqual([
+      '1',
+      null,
+      '3',
+      '4',
+    ]);
+    expect(service.getMetrics().evictions).toBe(1);
+  });
+
+  it('should delete keys matching a glob pattern', async () => {
+    await service.mset({
+      'slots:1:10:2022-08-20': '[]',
+      'slots:1:11:2022-08-20': '[]',
+      'slots:2:10:2022-08-20': '[]',
+    });
+
+    const removed = await service.deleteByPattern('slots:1:*');
+
+    expect(removed).toBe(2);
+    expect(await service.get('slots:2:10:2022-08-20')).toBe('[]');
+  });
+
+  it('should only count live keys when unlinking', async () => {
+    await service.set('live', 'value');
+    await service.set('expired', 'value', 1);
+    clock.mockReturnValue(now + 2000);
+
+    expect(await service.unlink(['live', 'expired', 'missing'])).toBe(1);
+  });
+
+  it('should accumulate set members and keep the TTL', async () => {
+    await service.sadd('set', ['a'], 60);
+    await service.sadd('set', ['b', 'a']);
+
+    expect((await service.smembers('set')).sort()).toEqual(['a', 'b']);
+    expect(await service.ttl('set')).toBe(60);
+  });
+});
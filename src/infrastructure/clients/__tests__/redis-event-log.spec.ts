@@ -0,0 +1,239 @@
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+
+import { RedisEventLog } from '../redis-event-log';
+
+jest.mock('ioredis', () => ({ Redis: jest.fn() }));
+
+type Connection = ReturnType<typeof connection>;
+
+const connection = () => {
+  const transaction = {
+    xadd: jest.fn().mockReturnThis(),
+    xack: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue([
+      [null, '9-0'],
+      [null, 1],
+    ]),
+  };
+  return {
+    transaction,
+    on: jest.fn(),
+    eval: jest.fn().mockResolvedValue(1),
+    xgroup: jest.fn().mockResolvedValue('OK'),
+    xautoclaim: jest.fn().mockResolvedValue(['0-0', []]),
+    xreadgroup: jest.fn().mockResolvedValue(null),
+    xclaim: jest.fn().mockResolvedValue([]),
+    xack: jest.fn().mockResolvedValue(1),
+    multi: jest.fn(() => transaction),
+    quit: jest.fn().mockResolvedValue('OK'),
+  };
+};
+
+describe('RedisEventLog', () => {
+  let client: Connection;
+  let reader: Connection;
+  let renewal: (() => Promise<void>) | null;
+
+  const open = () =>
+    new RedisEventLog(
+      new ConfigService({
+        EVENT_CONSUMER_NAME: 'instance-a',
+        EVENT_CONSUMER_LEASE_MS: 30000,
+      }),
+    );
+  const entry = (id: string, payload: string) => [id, ['payload', payload]];
+  const delivered = (...entries: unknown[][]) => [['events:stream', entries]];
+  // Ejecuta la renovación que el log programó con setInterval
+  const renew = () => {
+    expect(renewal).not.toBeNull();
+    return renewal?.();
+  };
+
+  beforeEach(() => {
+    client = connection();
+    reader = connection();
+    (Redis as unknown as jest.Mock)
+      .mockReset()
+      .mockReturnValueOnce(client)
+      .mockReturnValueOnce(reader);
+
+    renewal = null;
+    jest.spyOn(global, 'setInterval').mockImplementation(((
+      callback: () => Promise<void>,
+    ) => {
+      renewal = callback;
+      return { unref: jest.fn() };
+    }) as any);
+    jest.spyOn(global, 'clearInterval').mockImplementation(() => {
+      renewal = null;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recovery', () => {
+    it('should claim pending entries after a restart before reading new ones', async () => {
+      // Una página vacía con cursor distinto de 0-0 no termina el recorrido
+      client.xautoclaim
+        .mockResolvedValueOnce(['5-0', [null]])
+        .mockResolvedValueOnce(['0-0', [entry('6-0', 'b')]])
+        .mockResolvedValueOnce(['0-0', []]);
+      reader.xreadgroup.mockResolvedValueOnce(delivered(entry('7-0', 'c')));
+      const log = open();
+
+      expect(await log.read(10, 0)).toEqual([{ id: '6-0', payload: 'b' }]);
+      await log.ack('6-0');
+      expect(await log.read(10, 0)).toEqual([{ id: '7-0', payload: 'c' }]);
+
+      expect(client.xautoclaim.mock.calls.map((call) => call[4])).toEqual([
+        '0-0',
+        '5-0',
+        '0-0',
+      ]);
+      expect(log.getMetrics()).toMatchObject({ claimed: 1, recovering: false });
+    });
+
+    it('should not read while another consumer holds the lease', async () => {
+      client.eval.mockResolvedValue(0);
+      const log = open();
+
+      expect(await log.read(10, 0)).toEqual([]);
+      expect(reader.xreadgroup).not.toHaveBeenCalled();
+      expect(log.getMetrics().leaseHeld).toBe(false);
+    });
+  });
+
+  describe('lease renewal', () => {
+    it('should keep the in-flight entries claimed while the batch runs', async () => {
+      reader.xreadgroup.mockResolvedValueOnce(
+        delivered(entry('1-0', 'a'), entry('2-0', 'b')),
+      );
+      const log = open();
+      await log.read(10, 0);
+
+      await renew();
+
+      expect(client.xclaim).toHaveBeenCalledWith(
+        'events:stream',
+        'event-processors',
+        'instance-a',
+        0,
+        '1-0',
+        '2-0',
+        'JUSTID',
+      );
+    });
+
+    it('should stop renewing once the batch is settled', async () => {
+      reader.xreadgroup.mockResolvedValueOnce(
+        delivered(entry('1-0', 'a'), entry('2-0', 'b')),
+      );
+      const log = open();
+      await log.read(10, 0);
+
+      await log.ack('1-0');
+      await renew();
+      expect(client.xclaim).toHaveBeenLastCalledWith(
+        'events:stream',
+        'event-processors',
+        'instance-a',
+        0,
+        '2-0',
+        'JUSTID',
+      );
+
+      await log.deadLetter({
+        id: '2-0',
+        payload: 'b',
+        reason: 'boom',
+        attempts: 3,
+        failedAt: '2022-08-20T00:00:00.000Z',
+      });
+      expect(renewal).toBeNull();
+    });
+
+    it('should stop claiming and recover when the lease is lost mid-batch', async () => {
+      reader.xreadgroup.mockResolvedValueOnce(delivered(entry('1-0', 'a')));
+      const log = open();
+      await log.read(10, 0);
+
+      client.eval.mockResolvedValueOnce(0);
+      await renew();
+
+      expect(client.xclaim).not.toHaveBeenCalled();
+      expect(log.getMetrics().leaseHeld).toBe(false);
+
+      // Al recuperar el lease se reclaman las pendientes antes de seguir
+      client.xautoclaim.mockClear();
+      await log.read(10, 0);
+      expect(client.xautoclaim).toHaveBeenCalledWith(
+        'events:stream',
+        'event-processors',
+        'instance-a',
+        0,
+        '0-0',
+        'COUNT',
+        10,
+      );
+    });
+  });
+
+  describe('deadLetter', () => {
+    const letter = {
+      id: '1-0',
+      payload: 'a',
+      reason: 'boom',
+      attempts: 3,
+      failedAt: '2022-08-20T00:00:00.000Z',
+    };
+
+    it('should move the entry to the dead letter stream and ack it', async () => {
+      const log = open();
+
+      await log.deadLetter(letter);
+
+      expect(client.transaction.xadd).toHaveBeenCalledWith(
+        'events:dead-letters',
+        'MAXLEN',
+        '~',
+        100000,
+        '*',
+        'sourceId',
+        '1-0',
+        'payload',
+        'a',
+        'reason',
+        'boom',
+        'attempts',
+        3,
+        'failedAt',
+        '2022-08-20T00:00:00.000Z',
+      );
+      expect(client.transaction.xack).toHaveBeenCalledWith(
+        'events:stream',
+        'event-processors',
+        '1-0',
+      );
+      expect(log.getMetrics().deadLettered).toBe(1);
+    });
+
+    it('should fail when a command of the transaction fails', async () => {
+      const error = new Error('NOGROUP No such consumer group');
+      client.transaction.exec.mockResolvedValueOnce([
+        [null, '9-0'],
+        [error, null],
+      ]);
+      const log = open();
+      await log.read(10, 0);
+
+      await expect(log.deadLetter(letter)).rejects.toBe(error);
+      expect(log.getMetrics()).toMatchObject({
+        deadLettered: 0,
+        recovering: true,
+      });
+    });
+  });
+});
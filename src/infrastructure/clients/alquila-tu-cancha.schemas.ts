@@ -0,0 +1,123 @@
+import { z } from 'nestjs-zod/z';
+
+import { Club, Court, Slot, Zone } from '../../domain/model';
+
+/**
+ * Esquemas de validación de las respuestas de la API mock.
+ * Los payloads mal formados se rechazan en el cliente, antes de cruzar el
+ * puerto hacia el dominio. Se usa passthrough para conservar atributos
+ * adicionales que la API pueda agregar.
+ */
+const LocationSchema = z
+  .object({
+    name: z.string(),
+    city: z.string(),
+    lat: z.string(),
+    lng: z.string(),
+  })
+  .passthrough();
+
+const CountrySchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    iso_code: z.string(),
+  })
+  .passthrough();
+
+export const ZoneSchema: z.ZodType<Zone> = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    full_name: z.string(),
+    placeid: z.string(),
+    country: CountrySchema,
+  })
+  .passthrough();
+
+const OpenHoursSchema = z
+  .object({
+    day_of_week: z.number().int().min(0).max(6),
+    open_time: z.number(),
+    close_time: z.number(),
+    open: z.boolean(),
+  })
+  .passthrough();
+
+const SportSchema = z
+  .object({
+    id: z.number().int(),
+    parent_id: z.number().int().nullable(),
+    name: z.string(),
+    players_max: z.number().int(),
+    order: z.number(),
+    default_duration: z.number().int().positive(),
+    divisible_duration: z.number().int().positive(),
+    icon: z.string(),
+    pivot: z
+      .object({
+        court_id: z.number().int(),
+        sport_id: z.number().int(),
+        enabled: z.number(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export const ClubSchema: z.ZodType<Club> = z
+  .object({
+    id: z.number().int(),
+    permalink: z.string(),
+    name: z.string(),
+    logo: z.string(),
+    logo_url: z.string(),
+    background: z.string(),
+    background_url: z.string(),
+    location: LocationSchema,
+    zone: ZoneSchema,
+    props: z
+      .object({
+        sponsor: z.boolean(),
+        favorite: z.boolean(),
+        stars: z.string(),
+        payment: z.boolean(),
+      })
+      .passthrough(),
+    attributes: z.array(z.string()),
+    openhours: z.array(OpenHoursSchema),
+    _priority: z.number(),
+  })
+  .passthrough();
+
+export const CourtSchema: z.ZodType<Court> = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    attributes: z
+      .object({
+        floor: z.string(),
+        light: z.boolean(),
+        roofed: z.boolean(),
+        beelup: z.boolean(),
+      })
+      .passthrough(),
+    sports: z.array(SportSchema),
+  })
+  .passthrough();
+
+export const SlotSchema: z.ZodType<Slot> = z
+  .object({
+    price: z.number(),
+    duration: z.number().int().positive(),
+    datetime: z.string().regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/),
+    start: z.string(),
+    end: z.string(),
+    _priority: z.number(),
+  })
+  .passthrough();
+
+export const ZonesResponseSchema = z.array(ZoneSchema);
+export const ClubsResponseSchema = z.array(ClubSchema);
+export const CourtsResponseSchema = z.array(CourtSchema);
+export const SlotsResponseSchema = z.array(SlotSchema);
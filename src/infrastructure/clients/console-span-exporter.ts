@@ -0,0 +1,14 @@
+import { SpanExporter, SpanRecord } from '../../domain/ports/span-exporter';
+
+/**
+ * Escribe cada span como una línea JSON en stdout
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  async export(span: SpanRecord): Promise<void> {
+    process.stdout.write(`${JSON.stringify(span)}\n`);
+  }
+
+  async close(): Promise<void> {
+    // Nada que liberar
+  }
+}
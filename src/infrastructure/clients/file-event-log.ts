@@ -0,0 +1,285 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+import {
+  DeadLetter,
+  EventLog,
+  EventLogEntry,
+} from '../../domain/ports/event-log';
+
+type LogRecord =
+  | { op: 'append'; id: string; payload: string }
+  | { op: 'ack'; id: string };
+
+interface StoredEntry {
+  payload: string;
+  acked: boolean;
+}
+
+/**
+ * Log de eventos en un archivo local (JSON por línea), alternativa a
+ * Redis para desarrollo y despliegues de una sola instancia:
+ * - Cada alta y cada confirmación se agrega al archivo y se sincroniza a
+ *   disco antes de resolver
+ * - Al iniciar se reconstruyen las entradas sin confirmar, que se vuelven
+ *   a entregar en orden
+ * - Conserva las últimas `EVENT_LOG_RETENTION` entradas confirmadas como
+ *   historial, y compacta el archivo cuando acumula líneas de más
+ * - Los eventos fallidos se agregan a un archivo aparte (`.dead`)
+ */
+export class FileEventLog implements EventLog {
+  private readonly logger = new Logger(FileEventLog.name);
+
+  private readonly path: string;
+  private readonly deadLetterPath: string;
+  private readonly compactThreshold: number;
+  private readonly retention: number;
+
+  // Entradas pendientes e historial confirmado, en orden de llegada
+  private readonly entries = new Map<string, StoredEntry>();
+  private readonly delivered = new Set<string>();
+  private pendingCount = 0;
+  private ackedCount = 0;
+  private records = 0;
+  private sequence = 0;
+
+  private loading: Promise<void> | null = null;
+  // Las escrituras se encadenan para no intercalar líneas ni compactaciones
+  private writes: Promise<unknown> = Promise.resolve();
+  private wakeUp: (() => void) | null = null;
+
+  private metrics = {
+    appended: 0,
+    acked: 0,
+    deadLettered: 0,
+    compactions: 0,
+  };
+
+  constructor(configService: ConfigService) {
+    this.path = configService.get<string>('EVENT_LOG_PATH', 'data/events.log');
+    this.deadLetterPath = `${this.path}.dead`;
+    this.compactThreshold = Number(
+      configService.get<number>('EVENT_LOG_COMPACT_THRESHOLD', 1000),
+    );
+    this.retention = Number(
+      configService.get<number>('EVENT_LOG_RETENTION', 1000),
+    );
+  }
+
+  async append(payload: string): Promise<string> {
+    await this.load();
+    const id = `${Date.now()}-${this.sequence++}`;
+    await this.enqueue(async () => {
+      await this.appendLine(this.path, { op: 'append', id, payload });
+      this.apply({ op: 'append', id, payload });
+    });
+
+    this.metrics.appended++;
+    this.wakeUp?.();
+    return id;
+  }
+
+  async read(count: number, blockMs: number): Promise<EventLogEntry[]> {
+    await this.load();
+    if (this.undelivered(count).length === 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => this.wakeUp?.(), blockMs);
+        this.wakeUp = () => {
+          clearTimeout(timer);
+          this.wakeUp = null;
+          resolve();
+        };
+      });
+    }
+
+    const entries = this.undelivered(count);
+    entries.forEach(({ id }) => this.delivered.add(id));
+    return entries;
+  }
+
+  async ack(id: string): Promise<void> {
+    await this.enqueue(async () => {
+      await this.appendLine(this.path, { op: 'ack', id });
+      this.apply({ op: 'ack', id });
+      this.delivered.delete(id);
+    });
+    this.metrics.acked++;
+
+    // Cada entrada retenida ocupa como mucho dos líneas (alta y confirmación)
+    if (this.records - 2 * this.entries.size >= this.compactThreshold) {
+      await this.compact();
+    }
+  }
+
+  async deadLetter(letter: DeadLetter): Promise<void> {
+    await this.enqueue(() => this.appendLine(this.deadLetterPath, letter));
+    this.metrics.deadLettered++;
+    await this.ack(letter.id);
+  }
+
+  async history(
+    since: Date,
+    until: Date | undefined,
+    count: number,
+  ): Promise<EventLogEntry[]> {
+    await this.load();
+    const from = since.getTime();
+    const to = until ? until.getTime() : Infinity;
+
+    const entries: EventLogEntry[] = [];
+    for (const [id, { payload }] of this.entries) {
+      if (entries.length >= count) {
+        break;
+      }
+      const receivedAt = Number(id.split('-')[0]);
+      if (receivedAt >= from && receivedAt <= to) {
+        entries.push({ id, payload });
+      }
+    }
+    return entries;
+  }
+
+  getMetrics() {
+    return {
+      backend: 'file',
+      path: this.path,
+      pending: this.pendingCount,
+      retained: this.ackedCount,
+      ...this.metrics,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.wakeUp?.();
+    await this.writes;
+  }
+
+  /**
+   * Reconstruye las entradas a partir del archivo
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.replay();
+    }
+    return this.loading;
+  }
+
+  private async replay(): Promise<void> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+
+    let content = '';
+    try {
+      content = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    content
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .forEach((line) => {
+        try {
+          this.apply(JSON.parse(line));
+          this.sequence++;
+        } catch (error) {
+          // Una línea cortada por una caída a mitad de escritura
+          this.logger.warn(`Skipping corrupt event log line: ${line}`);
+        }
+      });
+
+    if (this.pendingCount > 0) {
+      this.logger.log(`Recovered ${this.pendingCount} unprocessed events`);
+    }
+  }
+
+  private apply(record: LogRecord): void {
+    this.records++;
+    if (record.op === 'append') {
+      this.entries.set(record.id, { payload: record.payload, acked: false });
+      this.pendingCount++;
+      return;
+    }
+
+    const entry = this.entries.get(record.id);
+    if (!entry || entry.acked) {
+      return;
+    }
+    entry.acked = true;
+    this.pendingCount--;
+    this.ackedCount++;
+    this.trimHistory();
+  }
+
+  /**
+   * Descarta las entradas confirmadas más antiguas que exceden la retención
+   */
+  private trimHistory(): void {
+    for (const [id, entry] of this.entries) {
+      if (this.ackedCount <= this.retention) {
+        break;
+      }
+      if (entry.acked) {
+        this.entries.delete(id);
+        this.ackedCount--;
+      }
+    }
+  }
+
+  private undelivered(count: number): EventLogEntry[] {
+    const entries: EventLogEntry[] = [];
+    for (const [id, { payload, acked }] of this.entries) {
+      if (entries.length >= count) {
+        break;
+      }
+      if (!acked && !this.delivered.has(id)) {
+        entries.push({ id, payload });
+      }
+    }
+    return entries;
+  }
+
+  private async appendLine(path: string, record: unknown): Promise<void> {
+    const handle = await fs.open(path, 'a');
+    try {
+      await handle.appendFile(`${JSON.stringify(record)}\n`);
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Reescribe el archivo solo con las entradas retenidas
+   */
+  private compact(): Promise<void> {
+    return this.enqueue(async () => {
+      const records: LogRecord[] = [];
+      this.entries.forEach(({ payload, acked }, id) => {
+        records.push({ op: 'append', id, payload });
+        if (acked) {
+          records.push({ op: 'ack', id });
+        }
+      });
+
+      const temporary = `${this.path}.tmp`;
+      await fs.writeFile(
+        temporary,
+        records.map((record) => `${JSON.stringify(record)}\n`).join(''),
+      );
+      await fs.rename(temporary, this.path);
+
+      this.records = records.length;
+      this.metrics.compactions++;
+    });
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
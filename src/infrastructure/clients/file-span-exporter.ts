@@ -0,0 +1,53 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import { dirname } from 'path';
+
+import { SpanExporter, SpanRecord } from '../../domain/ports/span-exporter';
+
+/**
+ * Agrega cada span como una línea JSON a `TRACE_EXPORT_PATH`.
+ * No sincroniza a disco: perder los últimos spans ante una caída es aceptable.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly logger = new Logger(FileSpanExporter.name);
+
+  private readonly path: string;
+  private stream: Promise<WriteStream> | null = null;
+
+  constructor(configService: ConfigService) {
+    this.path = configService.get<string>(
+      'TRACE_EXPORT_PATH',
+      'data/traces.log',
+    );
+  }
+
+  async export(span: SpanRecord): Promise<void> {
+    const stream = await this.open();
+    stream.write(`${JSON.stringify(span)}\n`);
+  }
+
+  async close(): Promise<void> {
+    if (!this.stream) {
+      return;
+    }
+    const stream = await this.stream;
+    this.stream = null;
+    await new Promise<void>((resolve) => stream.end(() => resolve()));
+  }
+
+  private open(): Promise<WriteStream> {
+    if (!this.stream) {
+      this.stream = fs
+        .mkdir(dirname(this.path), { recursive: true })
+        .then(() => {
+          const stream = createWriteStream(this.path, { flags: 'a' });
+          stream.on('error', (error) =>
+            this.logger.error(`Could not write traces: ${error.message}`),
+          );
+          return stream;
+        });
+    }
+    return this.stream;
+  }
+}
@@ -1,70 +1,157 @@
-import { ConfigService } from '@nestjs/config';
 import { HttpService } from '@nestjs/axios';
-import { Injectable, Logger } from '@nestjs/common';
-import * as moment from 'moment';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { AxiosError } from 'axios';
+import * as moment from 'moment';
+import { z } from 'nestjs-zod/z';
 
-import { AlquilaTuCanchaClient } from '../../domain/ports/aquila-tu-cancha.client';
-import { Club, Court, Slot } from '../../domain/model';
-import { RedisService } from './redis.service';
+import { Club, Court, Slot, Zone } from '../../domain/model';
+import {
+  AlquilaTuCanchaClient,
+  ResourceNotFoundError,
+} from '../../domain/ports/aquila-tu-cancha.client';
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
 import { AdvancedCacheService } from '../services/advanced-cache.service';
+import { CacheIndexService } from '../services/cache-index.service';
 import { CircuitBreakerService } from '../services/circuit-breaker.service';
+import { PrometheusService } from '../services/prometheus.service';
+import {
+  isRateLimitError,
+  parseRetryAfter,
+  RateLimiterService,
+  UpstreamEndpoint,
+} from '../services/rate-limiter.service';
 import { RequestBatcherService } from '../services/request-batcher.service';
+import { TracingService } from '../services/tracing.service';
+import { UpstreamSchedulerService } from '../services/upstream-scheduler.service';
+import {
+  ClubSchema,
+  ClubsResponseSchema,
+  CourtSchema,
+  CourtsResponseSchema,
+  SlotsResponseSchema,
+  ZonesResponseSchema,
+} from './alquila-tu-cancha.schemas';
 
 /**
  * Cliente HTTP optimizado para AlquilaTuCancha con:
- * - Circuit breaker para tolerancia a fallos
+ * - Circuit breaker por endpoint para tolerancia a fallos
  * - Cache inteligente con fallback a datos desactualizados
  * - Batching de requests para evitar duplicados
  * - Prefetch de datos relacionados
  * - Manejo graceful de errores
+ * - Validación de las respuestas antes de entregarlas al dominio
+ * - Índice de clubs y fechas cacheadas para invalidar por eventos
+ * - Rate limit compartido entre instancias (token bucket)
+ * - Requests priorizados: las búsquedas de usuarios van antes que el prefetch
+ * - Reintentos con backoff ante 429 (respetando `Retry-After`), 5xx y errores de red
+ * - Latencia y status de cada llamada a la API para Prometheus
+ * - Spans de la espera por el rate limit y de cada llamada a la API
  */
 @Injectable()
 export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
   private readonly baseUrl: string;
   private readonly logger = new Logger(HTTPAlquilaTuCanchaClient.name);
-
-  private requestCount = 0;
-  private lastResetTime = Date.now();
-  private readonly RATE_LIMIT = 60;
-  private readonly RATE_WINDOW = 60000;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
 
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
-    private readonly redisService: RedisService,
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
     private readonly advancedCache: AdvancedCacheService,
+    private readonly cacheIndex: CacheIndexService,
     private readonly circuitBreaker: CircuitBreakerService,
     private readonly requestBatcher: RequestBatcherService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly scheduler: UpstreamSchedulerService,
+    private readonly prometheus: PrometheusService,
+    private readonly tracing: TracingService,
   ) {
     this.baseUrl = this.configService.get<string>(
       'ATC_BASE_URL',
       'http://localhost:4000',
     );
+    this.maxRetries = Number(
+      this.configService.get<number>('UPSTREAM_MAX_RETRIES', 2),
+    );
+    this.retryBaseDelayMs = Number(
+      this.configService.get<number>('UPSTREAM_RETRY_BASE_DELAY_MS', 200),
+    );
+  }
+
+  async getZones(): Promise<Zone[]> {
+    return this.scheduler.schedule('zones', () =>
+      this.circuitBreaker
+        .get('zones')
+        .execute(
+          () =>
+            this.requestBatcher.executeBatched('zones', () =>
+              this.fetchZonesFromAPI(),
+            ),
+          undefined,
+          isUpstreamFailure,
+        ),
+    );
   }
 
   async getClubs(placeId: string): Promise<Club[]> {
     const cacheKey = this.advancedCache.generateKey('clubs', placeId);
     const staleKey = this.advancedCache.generateStaleKey('clubs', placeId);
 
-    return this.circuitBreaker.execute(
-      () =>
-        this.requestBatcher.executeBatched(
-          cacheKey,
-          () => this.fetchClubsFromAPI(placeId),
-          `clubs:${placeId}`,
+    return this.scheduler.schedule(cacheKey, () =>
+      this.circuitBreaker.get('clubs').execute(
+        () =>
+          this.requestBatcher.executeBatched(
+            cacheKey,
+            () => this.fetchClubsFromAPI(placeId),
+            `clubs:${placeId}`,
+          ),
+        async () => {
+          const { data } = await this.advancedCache.getWithFallback<Club[]>(
+            cacheKey,
+            staleKey,
+          );
+          if (data) {
+            this.logger.warn(`Using stale data for clubs in place: ${placeId}`);
+            return data;
+          }
+          throw new Error('No cached data available for clubs');
+        },
+        isUpstreamFailure,
+      ),
+    );
+  }
+
+  async getClub(clubId: number): Promise<Club> {
+    return this.scheduler.schedule(`club:${clubId}`, () =>
+      this.circuitBreaker
+        .get('club', clubId)
+        .execute(
+          () =>
+            this.requestBatcher.executeBatched(`club:${clubId}`, () =>
+              this.fetchClubFromAPI(clubId),
+            ),
+          undefined,
+          isUpstreamFailure,
+        ),
+    );
+  }
+
+  async getCourt(clubId: number, courtId: number): Promise<Court> {
+    const cacheKey = this.advancedCache.generateKey('court', clubId, courtId);
+    return this.scheduler.schedule(cacheKey, () =>
+      this.circuitBreaker
+        .get('court', clubId)
+        .execute(
+          () =>
+            this.requestBatcher.executeBatched(cacheKey, () =>
+              this.fetchCourtFromAPI(clubId, courtId),
+            ),
+          undefined,
+          isUpstreamFailure,
         ),
-      async () => {
-        const { data } = await this.advancedCache.getWithFallback<Club[]>(
-          cacheKey,
-          staleKey,
-        );
-        if (data) {
-          this.logger.warn(`Using stale data for clubs in place: ${placeId}`);
-          return data;
-        }
-        throw new Error('No cached data available for clubs');
-      },
     );
   }
 
@@ -72,24 +159,27 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
     const cacheKey = this.advancedCache.generateKey('courts', clubId);
     const staleKey = this.advancedCache.generateStaleKey('courts', clubId);
 
-    return this.circuitBreaker.execute(
-      () =>
-        this.requestBatcher.executeBatched(
-          cacheKey,
-          () => this.fetchCourtsFromAPI(clubId),
-          `courts:${clubId}`,
-        ),
-      async () => {
-        const { data } = await this.advancedCache.getWithFallback<Court[]>(
-          cacheKey,
-          staleKey,
-        );
-        if (data) {
-          this.logger.warn(`Using stale data for courts in club: ${clubId}`);
-          return data;
-        }
-        throw new Error('No cached data available for courts');
-      },
+    return this.scheduler.schedule(cacheKey, () =>
+      this.circuitBreaker.get('courts', clubId).execute(
+        () =>
+          this.requestBatcher.executeBatched(
+            cacheKey,
+            () => this.fetchCourtsFromAPI(clubId),
+            `courts:${clubId}`,
+          ),
+        async () => {
+          const { data } = await this.advancedCache.getWithFallback<Court[]>(
+            cacheKey,
+            staleKey,
+          );
+          if (data) {
+            this.logger.warn(`Using stale data for courts in club: ${clubId}`);
+            return data;
+          }
+          throw new Error('No cached data available for courts');
+        },
+        isUpstreamFailure,
+      ),
     );
   }
 
@@ -112,26 +202,29 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
       formattedDate,
     );
 
-    return this.circuitBreaker.execute(
-      () =>
-        this.requestBatcher.executeBatched(
-          cacheKey,
-          () => this.fetchSlotsFromAPI(clubId, courtId, date),
-          `slots:${clubId}:${courtId}:${formattedDate}`,
-        ),
-      async () => {
-        const { data } = await this.advancedCache.getWithFallback<Slot[]>(
-          cacheKey,
-          staleKey,
-        );
-        if (data) {
-          this.logger.warn(
-            `Using stale data for slots in club: ${clubId}, court: ${courtId}`,
+    return this.scheduler.schedule(cacheKey, () =>
+      this.circuitBreaker.get('slots', clubId).execute(
+        () =>
+          this.requestBatcher.executeBatched(
+            cacheKey,
+            () => this.fetchSlotsFromAPI(clubId, courtId, date),
+            `slots:${clubId}:${courtId}:${formattedDate}`,
+          ),
+        async () => {
+          const { data } = await this.advancedCache.getWithFallback<Slot[]>(
+            cacheKey,
+            staleKey,
           );
-          return data;
-        }
-        throw new Error('No cached data available for slots');
-      },
+          if (data) {
+            this.logger.warn(
+              `Using stale data for slots in club: ${clubId}, court: ${courtId}`,
+            );
+            return data;
+          }
+          throw new Error('No cached data available for slots');
+        },
+        isUpstreamFailure,
+      ),
     );
   }
 
@@ -182,17 +275,36 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
     return { clubs, courts, slots };
   }
 
-  private async fetchClubsFromAPI(placeId: string): Promise<Club[]> {
-    await this.checkRateLimit();
+  private async fetchZonesFromAPI(): Promise<Zone[]> {
+    try {
+      const data = await this.getFromAPI('zones', '/zones');
+      const zones = this.validateResponse(
+        ZonesResponseSchema,
+        data,
+        'getZones',
+      );
+      await this.advancedCache.setWithIntelligentTTL(
+        this.advancedCache.generateKey('zones', 'all'),
+        zones,
+        'ZONES',
+        this.advancedCache.generateStaleKey('zones', 'all'),
+      );
+      return zones;
+    } catch (error) {
+      this.handleAPIError(error, 'getZones', {});
+      throw error;
+    }
+  }
 
+  private async fetchClubsFromAPI(placeId: string): Promise<Club[]> {
     try {
-      const response = await this.httpService.axiosRef.get<Club[]>('clubs', {
-        baseURL: this.baseUrl,
-        params: { placeId },
-        timeout: 10000,
-      });
+      const data = await this.getFromAPI('clubs', 'clubs', { placeId });
 
-      const clubs = response.data;
+      const clubs = this.validateResponse(
+        ClubsResponseSchema,
+        data,
+        'getClubs',
+      );
 
       const cacheKey = this.advancedCache.generateKey('clubs', placeId);
       const staleKey = this.advancedCache.generateStaleKey('clubs', placeId);
@@ -202,6 +314,10 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
         'CLUBS',
         staleKey,
       );
+      await this.cacheIndex.registerClubs(
+        placeId,
+        clubs.map((club) => club.id),
+      );
       this.prefetchCourtsForClubs(clubs);
       return clubs;
     } catch (error) {
@@ -210,18 +326,54 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
     }
   }
 
-  private async fetchCourtsFromAPI(clubId: number): Promise<Court[]> {
-    await this.checkRateLimit();
+  private async fetchClubFromAPI(clubId: number): Promise<Club> {
+    try {
+      const data = await this.getFromAPI('clubs', `/clubs/${clubId}`);
+      const club = this.validateResponse(ClubSchema, data, 'getClub');
+      await this.advancedCache.setWithIntelligentTTL(
+        this.advancedCache.generateKey('club', clubId),
+        club,
+        'CLUB',
+        this.advancedCache.generateStaleKey('club', clubId),
+      );
+      return club;
+    } catch (error) {
+      this.handleAPIError(error, 'getClub', { clubId });
+      throw this.mapNotFound(error, `Club ${clubId}`);
+    }
+  }
 
+  private async fetchCourtFromAPI(
+    clubId: number,
+    courtId: number,
+  ): Promise<Court> {
     try {
-      const response = await this.httpService.axiosRef.get<Court[]>(
-        `/clubs/${clubId}/courts`,
-        {
-          baseURL: this.baseUrl,
-          timeout: 10000,
-        },
+      const data = await this.getFromAPI(
+        'courts',
+        `/clubs/${clubId}/courts/${courtId}`,
+      );
+      const court = this.validateResponse(CourtSchema, data, 'getCourt');
+      await this.advancedCache.setWithIntelligentTTL(
+        this.advancedCache.generateKey('court', clubId, courtId),
+        court,
+        'COURT',
+        this.advancedCache.generateStaleKey('court', clubId, courtId),
+      );
+      return court;
+    } catch (error) {
+      this.handleAPIError(error, 'getCourt', { clubId, courtId });
+      throw this.mapNotFound(error, `Court ${courtId} of club ${clubId}`);
+    }
+  }
+
+  private async fetchCourtsFromAPI(clubId: number): Promise<Court[]> {
+    try {
+      const data = await this.getFromAPI('courts', `/clubs/${clubId}/courts`);
+      const courts = this.validateResponse(
+        CourtsResponseSchema,
+        data,
+        'getCourts',
       );
-      const courts = response.data;
       const cacheKey = this.advancedCache.generateKey('courts', clubId);
       const staleKey = this.advancedCache.generateStaleKey('courts', clubId);
       await this.advancedCache.setWithIntelligentTTL(
@@ -242,18 +394,22 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
     courtId: number,
     date: Date,
   ): Promise<Slot[]> {
-    await this.checkRateLimit();
     const formattedDate = moment(date).format('YYYY-MM-DD');
     try {
-      const response = await this.httpService.axiosRef.get<Slot[]>(
+      // La API responde 404 cuando la cancha no tiene turnos libres ese día
+      const data = await this.getFromAPI(
+        'slots',
         `/clubs/${clubId}/courts/${courtId}/slots`,
-        {
-          baseURL: this.baseUrl,
-          params: { date: formattedDate },
-          timeout: 10000,
-        },
+        { date: formattedDate },
+      ).catch((error) => {
+        if (isNotFound(error)) return [];
+        throw error;
+      });
+      const slots = this.validateResponse(
+        SlotsResponseSchema,
+        data,
+        'getAvailableSlots',
       );
-      const slots = response.data;
       const cacheKey = this.advancedCache.generateKey(
         'slots',
         clubId,
@@ -272,6 +428,7 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
         'SLOTS',
         staleKey,
       );
+      await this.cacheIndex.registerSlots(clubId, courtId, formattedDate);
       return slots;
     } catch (error) {
       this.handleAPIError(error, 'getAvailableSlots', {
@@ -283,10 +440,107 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
     }
   }
 
+  /**
+   * GET idempotente a la API, con reintentos:
+   * - 429: frena el rate limiter según `Retry-After` y reintenta cuando haya tokens
+   * - 5xx y errores de red: backoff exponencial con jitter
+   * - El resto de los errores se propaga sin reintentar
+   */
+  private async getFromAPI(
+    endpoint: UpstreamEndpoint,
+    url: string,
+    params?: Record<string, string>,
+  ): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      await this.tracing.trace('rate-limit.acquire', { endpoint }, () =>
+        this.rateLimiter.acquire(endpoint),
+      );
+
+      const startTime = Date.now();
+      try {
+        const response = await this.tracing.trace(
+          'upstream.request',
+          { endpoint, url, attempt },
+          async () => {
+            const result = await this.httpService.axiosRef.get<unknown>(url, {
+              baseURL: this.baseUrl,
+              params,
+              timeout: 10000,
+            });
+            this.tracing.annotate({ status: result.status });
+            return result;
+          },
+        );
+        this.observeUpstream(endpoint, response.status, startTime);
+        return response.data;
+      } catch (error) {
+        if (!(error instanceof AxiosError)) {
+          throw error;
+        }
+
+        const status = error.response?.status;
+        // Sin respuesta (timeout, conexión rechazada) se registra el código de error
+        this.observeUpstream(
+          endpoint,
+          status ?? error.code ?? 'error',
+          startTime,
+        );
+        if (status === 429) {
+          await this.rateLimiter.backOff(
+            parseRetryAfter(error.response?.headers['retry-after']),
+          );
+        } else if (status !== undefined && status < 500) {
+          throw error;
+        }
+
+        if (attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        // Tras un 429 la espera la impone el rate limiter
+        if (status !== 429) {
+          await this.delay(this.getRetryDelay(attempt));
+        }
+        this.logger.warn(
+          `Retrying GET ${url} after ${status ?? error.code} (attempt ${
+            attempt + 1
+          }/${this.maxRetries})`,
+        );
+      }
+    }
+  }
+
+  private observeUpstream(
+    endpoint: UpstreamEndpoint,
+    status: number | string,
+    startTime: number,
+  ): void {
+    this.prometheus.upstreamDuration.observe(
+      { endpoint, status },
+      (Date.now() - startTime) / 1000,
+    );
+  }
+
+  /**
+   * Backoff exponencial con jitter para no sincronizar los reintentos
+   */
+  private getRetryDelay(attempt: number): number {
+    const backoff = this.retryBaseDelayMs * 2 ** attempt;
+    return Math.round(backoff * (0.5 + Math.random() * 0.5));
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => setTimeout(() => resolve(), ms));
+  }
+
   private async prefetchCourtsForClubs(clubs: Club[]): Promise<void> {
     setImmediate(async () => {
       try {
-        const courtPromises = clubs.map((club) => this.getCourts(club.id));
+        const courtPromises = clubs.map((club) =>
+          this.scheduler.runWithPriority('prefetch', () =>
+            this.getCourts(club.id),
+          ),
+        );
         try {
           await Promise.all(courtPromises);
         } catch (error) {
@@ -299,30 +553,53 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
     });
   }
 
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    if (now - this.lastResetTime >= this.RATE_WINDOW) {
-      this.requestCount = 0;
-      this.lastResetTime = now;
-    }
-    if (this.requestCount >= this.RATE_LIMIT) {
-      const waitTime = this.RATE_WINDOW - (now - this.lastResetTime);
-      this.logger.warn(`Rate limit reached, waiting ${waitTime}ms`);
-      await new Promise<void>((resolve) =>
-        setTimeout(() => resolve(), waitTime),
-      );
-      this.requestCount = 0;
-      this.lastResetTime = Date.now();
+  /**
+   * Requests que todavía pueden hacerse sin esperar tokens
+   */
+  getRemainingRateBudget(): number {
+    return this.rateLimiter.getAvailableTokens();
+  }
+
+  /**
+   * Rechaza payloads que no respetan el modelo de dominio
+   */
+  private validateResponse<T>(
+    schema: z.ZodType<T>,
+    data: unknown,
+    operation: string,
+  ): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid payload received in ${operation}: ${issues}`);
     }
-    this.requestCount++;
+    return result.data;
+  }
+
+  /**
+   * Un 404 de la API se traduce al error del puerto
+   */
+  private mapNotFound(error: unknown, resource: string): unknown {
+    return isNotFound(error) ? new ResourceNotFoundError(resource) : error;
   }
 
-  private handleAPIError(error: any, operation: string, context: any): void {
-    if (error instanceof AxiosError) {
+  private handleAPIError(
+    error: any,
+    operation: string,
+    context: Record<string, unknown>,
+  ): void {
+    if (error instanceof AxiosError && error.response?.status === 429) {
+      this.logger.warn(`API rate limited ${operation}`, {
+        retryAfter: error.response.headers['retry-after'],
+        ...context,
+      });
+    } else if (error instanceof AxiosError) {
       this.logger.error(`API Error in ${operation}: ${error.message}`, {
         status: error.response?.status,
         statusText: error.response?.statusText,
-        context,
+        ...context,
       });
     } else {
       this.logger.error(`Unexpected error in ${operation}:`, error);
@@ -334,14 +611,22 @@ export class HTTPAlquilaTuCanchaClient implements AlquilaTuCanchaClient {
    */
   getMetrics() {
     return {
-      circuitBreaker: this.circuitBreaker.getMetrics(),
-      redis: this.redisService.getMetrics(),
-      rateLimit: {
-        current: this.requestCount,
-        limit: this.RATE_LIMIT,
-        window: this.RATE_WINDOW,
-        resetTime: this.lastResetTime,
-      },
+      circuitBreakers: this.circuitBreaker.getAllMetrics(),
+      cacheStore: this.cacheStore.getMetrics(),
+      rateLimit: this.rateLimiter.getMetrics(),
     };
   }
 }
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof AxiosError && error.response?.status === 404;
+}
+
+/**
+ * Un 429 indica falta de cupo y un club o cancha inexistente no es una API
+ * caída: ninguno de los dos abre el circuit breaker. El 404 de `/slots` ni
+ * llega acá, se toma como una lista vacía
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  return !isRateLimitError(error) && !(error instanceof ResourceNotFoundError);
+}
@@ -0,0 +1,232 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+
+import { CacheStore, CacheStoreMetrics } from '../../domain/ports/cache-store';
+
+interface Entry {
+  value: string | Set<string>;
+  expiresAt: number | null;
+}
+
+/**
+ * Cache en memoria del proceso, alternativa a Redis para desarrollo y tests:
+ * - Desalojo LRU al superar la cantidad máxima de entradas
+ * - TTL por entrada, expirado de forma perezosa al leer
+ * - Eliminación por patrones glob (`*`, `?`) como SCAN + UNLINK
+ * - Pub/sub local al proceso (no hay otras instancias que notificar)
+ */
+@Injectable()
+export class InMemoryCacheService implements CacheStore {
+  private readonly logger = new Logger(InMemoryCacheService.name);
+  private readonly entries = new Map<string, Entry>();
+  private readonly maxEntries: number;
+  private readonly channels = new EventEmitter();
+
+  private metrics = {
+    hits: 0,
+    misses: 0,
+    errors: 0,
+    operations: 0,
+    evictions: 0,
+  };
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxEntries = Number(
+      this.configService.get<number>('CACHE_MEMORY_MAX_ENTRIES', 10000),
+    );
+  }
+
+  async get(key: string): Promise<string | null> {
+    this.metrics.operations++;
+    const value = this.read(key);
+    if (typeof value === 'string') {
+      this.metrics.hits++;
+      return value;
+    }
+    this.metrics.misses++;
+    return null;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<boolean> {
+    this.metrics.operations++;
+    this.write(key, value, ttl);
+    return true;
+  }
+
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    this.metrics.operations++;
+    if (this.read(key) !== null) {
+      return false;
+    }
+    this.write(key, value, ttl);
+    return true;
+  }
+
+  async incr(key: string, ttl?: number): Promise<number | null> {
+    this.metrics.operations++;
+    const current = this.read(key);
+    const value = current === null ? 0 : Number(current);
+    if (current instanceof Set || !Number.isInteger(value)) {
+      this.metrics.errors++;
+      this.logger.error(`Key ${key} does not hold an integer`);
+      return null;
+    }
+
+    const expiresAt = ttl
+      ? Date.now() + ttl * 1000
+      : this.entries.get(key)?.expiresAt ?? null;
+    this.store(key, { value: String(value + 1), expiresAt });
+    return value + 1;
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async mset(keyValuePairs: Record<string, string>): Promise<boolean> {
+    this.metrics.operations++;
+    for (const [key, value] of Object.entries(keyValuePairs)) {
+      this.write(key, value);
+    }
+    return true;
+  }
+
+  async ttl(key: string): Promise<number> {
+    this.metrics.operations++;
+    if (this.read(key) === null) {
+      return -2;
+    }
+    const { expiresAt } = this.entries.get(key) as Entry;
+    return expiresAt === null ? -1 : Math.ceil((expiresAt - Date.now()) / 1000);
+  }
+
+  async unlink(keys: string[]): Promise<number> {
+    this.metrics.operations++;
+    return this.removeLive(keys);
+  }
+
+  async deleteByPattern(pattern: string): Promise<number> {
+    this.metrics.operations++;
+    const matcher = globToRegExp(pattern);
+    return this.removeLive(
+      [...this.entries.keys()].filter((key) => matcher.test(key)),
+    );
+  }
+
+  async sadd(key: string, members: string[], ttl?: number): Promise<boolean> {
+    if (members.length === 0) {
+      return true;
+    }
+
+    this.metrics.operations++;
+    const current = this.read(key);
+    if (typeof current === 'string') {
+      this.metrics.errors++;
+      this.logger.error(`Key ${key} does not hold a set`);
+      return false;
+    }
+
+    const set = current ?? new Set<string>();
+    members.forEach((member) => set.add(member));
+    const expiresAt = ttl
+      ? Date.now() + ttl * 1000
+      : this.entries.get(key)?.expiresAt ?? null;
+    this.store(key, { value: set, expiresAt });
+    return true;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    this.metrics.operations++;
+    const value = this.read(key);
+    return value instanceof Set ? [...value] : [];
+  }
+
+  async publish(channel: string, message: string): Promise<boolean> {
+    this.metrics.operations++;
+    this.channels.emit(channel, message);
+    return true;
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void> {
+    this.channels.on(channel, listener);
+  }
+
+  getMetrics(): CacheStoreMetrics {
+    const hitRate =
+      this.metrics.operations > 0
+        ? ((this.metrics.hits / this.metrics.operations) * 100).toFixed(2)
+        : '0.00';
+    return {
+      backend: 'memory',
+      ...this.metrics,
+      hitRate: `${hitRate}%`,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+    };
+  }
+
+  isHealthy(): boolean {
+    return true;
+  }
+
+  /**
+   * Lee una entrada vigente y la marca como la más recientemente usada
+   */
+  private read(key: string): string | Set<string> | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  private write(key: string, value: string, ttl?: number): void {
+    this.store(key, {
+      value,
+      expiresAt: ttl ? Date.now() + ttl * 1000 : null,
+    });
+  }
+
+  private store(key: string, entry: Entry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Map conserva el orden de inserción: la primera clave es la menos usada
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.metrics.evictions++;
+    }
+  }
+
+  /**
+   * Elimina las claves vigentes y devuelve cuántas había
+   */
+  private removeLive(keys: string[]): number {
+    return keys
+      .filter((key) => this.read(key) !== null)
+      .filter((key) => this.entries.delete(key)).length;
+  }
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
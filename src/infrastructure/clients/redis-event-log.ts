@@ -0,0 +1,371 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { hostname } from 'os';
+
+import {
+  DeadLetter,
+  EventLog,
+  EventLogEntry,
+} from '../../domain/ports/event-log';
+import { createRedisOptions } from './redis.service';
+
+// Renueva el lease si es de este consumidor, o lo toma si está libre
+const LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+if redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2], 'NX') then
+  return 1
+end
+return 0
+`;
+
+type StreamEntry = [id: string, fields: string[]];
+
+/**
+ * Log de eventos sobre un Redis Stream con consumer group:
+ * - XADD persiste el evento antes de responder al webhook
+ * - Un solo consumidor activo a la vez (lease en Redis), así el orden de
+ *   llegada se respeta aunque haya varias instancias
+ * - Al tomar el lease reclama con XAUTOCLAIM las entradas que otro
+ *   consumidor (o esta instancia antes de reiniciar) dejó sin confirmar.
+ *   XAUTOCLAIM requiere Redis 6.2 o posterior
+ * - Mientras procesa una tanda renueva el lease, así un handler lento o los
+ *   reintentos no dejan que otra instancia reclame entradas en curso
+ * - Los eventos fallidos van a un stream aparte
+ * - El stream conserva hasta `EVENT_LOG_MAX_LENGTH` entradas como historial
+ */
+export class RedisEventLog implements EventLog {
+  private readonly logger = new Logger(RedisEventLog.name);
+
+  private readonly STREAM_KEY = 'events:stream';
+  private readonly DEAD_LETTER_KEY = 'events:dead-letters';
+  private readonly LEASE_KEY = 'events:consumer:lease';
+  private readonly GROUP = 'event-processors';
+
+  private readonly client: Redis;
+  // Conexión dedicada a XREADGROUP, que bloquea mientras espera entradas
+  private readonly reader: Redis;
+  private readonly consumer: string;
+  private readonly maxLength: number;
+  private readonly leaseMs: number;
+
+  private groupReady = false;
+  private leaseHeld = false;
+  // Mientras recupera, entrega primero las entradas pendientes del grupo
+  private recovering = true;
+  private claimCursor = '0-0';
+  // Entradas de la última tanda entregada que todavía no se confirmaron
+  private readonly inFlight = new Set<string>();
+  private renewTimer: NodeJS.Timeout | null = null;
+
+  private metrics = {
+    appended: 0,
+    acked: 0,
+    deadLettered: 0,
+    claimed: 0,
+  };
+
+  constructor(configService: ConfigService) {
+    const options = createRedisOptions(configService);
+    this.client = new Redis(options);
+    this.reader = new Redis(options);
+    [this.client, this.reader].forEach((connection) =>
+      connection.on('error', (error) =>
+        this.logger.error(`Redis event log error: ${error.message}`),
+      ),
+    );
+
+    this.consumer = configService.get<string>(
+      'EVENT_CONSUMER_NAME',
+      hostname(),
+    );
+    this.maxLength = Number(
+      configService.get<number>('EVENT_LOG_MAX_LENGTH', 100000),
+    );
+    this.leaseMs = Number(
+      configService.get<number>('EVENT_CONSUMER_LEASE_MS', 30000),
+    );
+  }
+
+  async append(payload: string): Promise<string> {
+    const id = await this.client.xadd(
+      this.STREAM_KEY,
+      'MAXLEN',
+      '~',
+      this.maxLength,
+      '*',
+      'payload',
+      payload,
+    );
+    this.metrics.appended++;
+    return id as string;
+  }
+
+  async read(count: number, blockMs: number): Promise<EventLogEntry[]> {
+    if (!(await this.holdLease())) {
+      await new Promise<void>((resolve) =>
+        setTimeout(() => resolve(), blockMs),
+      );
+      return [];
+    }
+
+    // Una nueva lectura implica que la tanda anterior ya se terminó de procesar
+    this.inFlight.clear();
+    this.stopRenewing();
+
+    try {
+      await this.ensureGroup();
+
+      if (this.recovering) {
+        const claimed = await this.claimPending(count);
+        if (claimed.length > 0) {
+          return this.track(claimed);
+        }
+        this.recovering = false;
+      }
+
+      const result = (await this.reader.xreadgroup(
+        'GROUP',
+        this.GROUP,
+        this.consumer,
+        'COUNT',
+        count,
+        'BLOCK',
+        blockMs,
+        'STREAMS',
+        this.STREAM_KEY,
+        '>',
+      )) as [stream: string, entries: StreamEntry[]][] | null;
+      return result ? this.track(this.toEntries(result[0][1])) : [];
+    } catch (error) {
+      // Si Redis perdió el grupo o la conexión, se recupera desde el principio
+      this.groupReady = false;
+      this.startRecovery();
+      throw error;
+    }
+  }
+
+  async ack(id: string): Promise<void> {
+    try {
+      await this.client.xack(this.STREAM_KEY, this.GROUP, id);
+      this.metrics.acked++;
+      this.settle(id);
+      await this.holdLease();
+    } catch (error) {
+      this.startRecovery();
+      throw error;
+    }
+  }
+
+  async deadLetter(letter: DeadLetter): Promise<void> {
+    try {
+      const results = await this.client
+        .multi()
+        .xadd(
+          this.DEAD_LETTER_KEY,
+          'MAXLEN',
+          '~',
+          this.maxLength,
+          '*',
+          'sourceId',
+          letter.id,
+          'payload',
+          letter.payload,
+          'reason',
+          letter.reason,
+          'attempts',
+          letter.attempts,
+          'failedAt',
+          letter.failedAt,
+        )
+        .xack(this.STREAM_KEY, this.GROUP, letter.id)
+        .exec();
+      const failed = results?.find(([error]) => error);
+      if (failed) {
+        throw failed[0];
+      }
+      this.metrics.deadLettered++;
+      this.settle(letter.id);
+      await this.holdLease();
+    } catch (error) {
+      this.startRecovery();
+      throw error;
+    }
+  }
+
+  async history(
+    since: Date,
+    until: Date | undefined,
+    count: number,
+  ): Promise<EventLogEntry[]> {
+    // Los ids del stream empiezan con el timestamp de llegada en ms
+    const entries = (await this.client.xrange(
+      this.STREAM_KEY,
+      String(since.getTime()),
+      until ? String(until.getTime()) : '+',
+      'COUNT',
+      count,
+    )) as StreamEntry[];
+    return this.toEntries(entries);
+  }
+
+  getMetrics() {
+    return {
+      backend: 'redis',
+      consumer: this.consumer,
+      leaseHeld: this.leaseHeld,
+      recovering: this.recovering,
+      ...this.metrics,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.stopRenewing();
+    try {
+      if (this.leaseHeld) {
+        await this.client.eval(
+          "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end return 0",
+          1,
+          this.LEASE_KEY,
+          this.consumer,
+        );
+      }
+      await Promise.all([this.reader.quit(), this.client.quit()]);
+    } catch (error) {
+      this.logger.error(`Error closing Redis event log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Toma o renueva el lease de consumidor. Al tomarlo, primero se
+   * reclaman las entradas pendientes del consumidor anterior
+   */
+  private async holdLease(): Promise<boolean> {
+    const held =
+      Number(
+        await this.client.eval(
+          LEASE_SCRIPT,
+          1,
+          this.LEASE_KEY,
+          this.consumer,
+          this.leaseMs,
+        ),
+      ) === 1;
+
+    if (held && !this.leaseHeld) {
+      this.logger.log(`Consumer ${this.consumer} acquired the event log lease`);
+      this.startRecovery();
+    }
+    this.leaseHeld = held;
+    return held;
+  }
+
+  private async ensureGroup(): Promise<void> {
+    if (this.groupReady) {
+      return;
+    }
+    try {
+      await this.client.xgroup(
+        'CREATE',
+        this.STREAM_KEY,
+        this.GROUP,
+        '0',
+        'MKSTREAM',
+      );
+    } catch (error) {
+      if (!String(error.message).includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+    this.groupReady = true;
+  }
+
+  /**
+   * Reclama las entradas entregadas y no confirmadas del grupo, en orden
+   */
+  private async claimPending(count: number): Promise<EventLogEntry[]> {
+    const [nextCursor, entries] = (await this.client.xautoclaim(
+      this.STREAM_KEY,
+      this.GROUP,
+      this.consumer,
+      0,
+      this.claimCursor,
+      'COUNT',
+      count,
+    )) as [cursor: string, entries: (StreamEntry | null)[]];
+
+    this.claimCursor = nextCursor;
+    const claimed = this.toEntries(
+      entries.filter((entry): entry is StreamEntry => entry !== null),
+    );
+    this.metrics.claimed += claimed.length;
+
+    // Con el cursor en 0-0 no quedan más pendientes por recorrer
+    if (claimed.length === 0 && nextCursor !== '0-0') {
+      return this.claimPending(count);
+    }
+    return claimed;
+  }
+
+  private track(entries: EventLogEntry[]): EventLogEntry[] {
+    entries.forEach((entry) => this.inFlight.add(entry.id));
+    if (this.inFlight.size > 0 && !this.renewTimer) {
+      this.renewTimer = setInterval(() => this.renew(), this.leaseMs / 3);
+      this.renewTimer.unref();
+    }
+    return entries;
+  }
+
+  private settle(id: string): void {
+    this.inFlight.delete(id);
+    if (this.inFlight.size === 0) {
+      this.stopRenewing();
+    }
+  }
+
+  private stopRenewing(): void {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+  }
+
+  /**
+   * Renueva el lease y reinicia el tiempo ocioso de las entradas en curso
+   * (XCLAIM ... JUSTID) mientras se procesan o esperan un reintento
+   */
+  private async renew(): Promise<void> {
+    try {
+      if (!(await this.holdLease())) {
+        this.logger.warn(
+          `Consumer ${this.consumer} lost the event log lease with ${this.inFlight.size} entries in flight`,
+        );
+        return;
+      }
+      await this.client.xclaim(
+        this.STREAM_KEY,
+        this.GROUP,
+        this.consumer,
+        0,
+        ...this.inFlight,
+        'JUSTID',
+      );
+    } catch (error) {
+      this.logger.error(`Error renewing event log lease: ${error.message}`);
+    }
+  }
+
+  private startRecovery(): void {
+    this.recovering = true;
+    this.claimCursor = '0-0';
+  }
+
+  private toEntries(entries: StreamEntry[]): EventLogEntry[] {
+    return entries.map(([id, fields]) => ({
+      id,
+      payload: fields[fields.indexOf('payload') + 1],
+    }));
+  }
+}
@@ -1,6 +1,31 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Redis } from 'ioredis';
+import { Redis, RedisOptions } from 'ioredis';
+
+import { CacheStore, CacheStoreMetrics } from '../../domain/ports/cache-store';
+
+/**
+ * Opciones de conexión a partir de `REDIS_*`, compartidas por las
+ * conexiones que necesiten un cliente propio
+ */
+export function createRedisOptions(configService: ConfigService): RedisOptions {
+  return {
+    host: configService.get<string>('REDIS_HOST', 'localhost'),
+    port: configService.get<number>('REDIS_PORT', 6379),
+    password: configService.get<string>('REDIS_PASSWORD'),
+    db: configService.get<number>('REDIS_DB', 0),
+    maxRetriesPerRequest: 3,
+    lazyConnect: true,
+    keepAlive: 30000,
+    connectTimeout: 10000,
+    commandTimeout: 5000,
+  };
+}
 
 /**
  * Servicio Redis mejorado con:
@@ -10,13 +35,21 @@ import { Redis } from 'ioredis';
  * - Fallback graceful cuando Redis no está disponible
  */
 @Injectable()
-export class RedisService {
+export class RedisService
+  implements CacheStore, OnModuleInit, OnApplicationShutdown
+{
   private readonly client: Redis;
+  // Conexión dedicada a pub/sub: en modo suscriptor no acepta otros comandos
+  private subscriber: Redis | null = null;
+  private readonly listeners = new Map<string, ((message: string) => void)[]>();
   private readonly logger = new Logger(RedisService.name);
   private isConnected = false;
   private connectionAttempts = 0;
   private readonly maxConnectionAttempts = 5;
 
+  // Claves por iteración de SCAN
+  private readonly SCAN_BATCH_SIZE = 200;
+
   private metrics = {
     hits: 0,
     misses: 0,
@@ -25,23 +58,30 @@ export class RedisService {
   };
 
   constructor(private readonly configService: ConfigService) {
-    const redisConfig = {
-      host: this.configService.get<string>('REDIS_HOST', 'localhost'),
-      port: this.configService.get<number>('REDIS_PORT', 6379),
-      password: this.configService.get<string>('REDIS_PASSWORD'),
-      db: this.configService.get<number>('REDIS_DB', 0),
-      retryDelayOnFailover: 100,
-      maxRetriesPerRequest: 3,
-      lazyConnect: true,
-      keepAlive: 30000,
-      connectTimeout: 10000,
-      commandTimeout: 5000,
-    };
-
-    this.client = new Redis(redisConfig);
+    this.client = new Redis(createRedisOptions(this.configService));
     this.setupEventHandlers();
   }
 
+  /**
+   * Con lazyConnect la conexión no se abre hasta el primer comando, y los
+   * métodos no envían comandos mientras no haya conexión
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.client.connect();
+    } catch (error) {
+      this.logger.warn(`Initial Redis connection failed: ${error}`);
+    }
+  }
+
+  /**
+   * Se cierra al final del apagado, cuando ya no quedan requests ni
+   * eventos en proceso
+   */
+  async onApplicationShutdown(): Promise<void> {
+    await this.quit();
+  }
+
   private setupEventHandlers(): void {
     this.client.on('error', (error) => {
       this.isConnected = false;
@@ -126,6 +166,52 @@ export class RedisService {
     }
   }
 
+  /**
+   * Guarda la clave solo si no existe (SET NX). Sin conexión devuelve
+   * true: ante la duda es preferible procesar dos veces que descartar
+   */
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, assuming key is absent: ${key}`);
+      return true;
+    }
+
+    try {
+      const result = await this.client.set(key, value, 'EX', ttl, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error setting key ${key} in Redis:`, error);
+      return true;
+    }
+  }
+
+  async incr(key: string, ttl?: number): Promise<number | null> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, skipping incr for key: ${key}`);
+      return null;
+    }
+
+    try {
+      const pipeline = this.client.pipeline().incr(key);
+      if (ttl) {
+        pipeline.expire(key, ttl);
+      }
+      const results = (await pipeline.exec()) ?? [];
+      const [error, value] = results[0] ?? [];
+      if (error) {
+        throw error;
+      }
+      return value as number;
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error incrementing key ${key} in Redis:`, error);
+      return null;
+    }
+  }
+
   async del(key: string): Promise<boolean> {
     this.metrics.operations++;
     if (!this.isConnected) {
@@ -144,6 +230,217 @@ export class RedisService {
     }
   }
 
+  /**
+   * Itera claves por patrón con SCAN a partir de un cursor, sin bloquear
+   * Redis como KEYS. Devuelve el próximo cursor ('0' al terminar).
+   */
+  async scan(
+    cursor: string,
+    pattern: string,
+    count = 100,
+  ): Promise<[string, string[]]> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, skipping scan for: ${pattern}`);
+      return ['0', []];
+    }
+
+    try {
+      return await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', count);
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error scanning pattern ${pattern} in Redis:`, error);
+      return ['0', []];
+    }
+  }
+
+  /**
+   * Elimina claves con UNLINK (liberación asíncrona) en lotes por pipeline.
+   * Devuelve la cantidad de claves efectivamente eliminadas.
+   */
+  async unlink(keys: string[], batchSize = 500): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(
+        `Redis not connected, skipping unlink for ${keys.length} keys`,
+      );
+      return 0;
+    }
+
+    try {
+      let removed = 0;
+      for (let i = 0; i < keys.length; i += batchSize) {
+        const pipeline = this.client.pipeline();
+        keys.slice(i, i + batchSize).forEach((key) => pipeline.unlink(key));
+        const results = (await pipeline.exec()) ?? [];
+        removed += results.reduce(
+          (total, [error, count]) => total + (error ? 0 : Number(count)),
+          0,
+        );
+      }
+      this.logger.debug(`Unlinked ${removed} of ${keys.length} keys`);
+      return removed;
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error unlinking keys in Redis:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Elimina todas las claves que coinciden con el patrón, recorriéndolas
+   * con SCAN por lotes
+   */
+  async deleteByPattern(pattern: string): Promise<number> {
+    let removed = 0;
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.scan(
+        cursor,
+        pattern,
+        this.SCAN_BATCH_SIZE,
+      );
+      removed += await this.unlink(keys);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+    return removed;
+  }
+
+  /**
+   * Devuelve el TTL restante en segundos (-1 sin expiración, -2 si no existe)
+   */
+  async ttl(key: string): Promise<number> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, skipping ttl for key: ${key}`);
+      return -2;
+    }
+
+    try {
+      return await this.client.ttl(key);
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error getting ttl for key ${key} in Redis:`, error);
+      return -2;
+    }
+  }
+
+  /**
+   * Agrega miembros a un set, renovando su expiración si se especifica
+   */
+  async sadd(key: string, members: string[], ttl?: number): Promise<boolean> {
+    if (members.length === 0) {
+      return true;
+    }
+
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, skipping sadd for key: ${key}`);
+      return false;
+    }
+
+    try {
+      const pipeline = this.client.pipeline().sadd(key, ...members);
+      if (ttl) {
+        pipeline.expire(key, ttl);
+      }
+      await pipeline.exec();
+      return true;
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error adding members to set ${key} in Redis:`, error);
+      return false;
+    }
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, returning empty set: ${key}`);
+      return [];
+    }
+
+    try {
+      return await this.client.smembers(key);
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error getting members of set ${key} in Redis:`, error);
+      return [];
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<boolean> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      this.logger.warn(`Redis not connected, skipping publish to: ${channel}`);
+      return false;
+    }
+
+    try {
+      await this.client.publish(channel, message);
+      return true;
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error publishing to channel ${channel}:`, error);
+      return false;
+    }
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      this.subscriber.on('message', (from: string, message: string) =>
+        (this.listeners.get(from) ?? []).forEach((handle) => handle(message)),
+      );
+      this.subscriber.on('error', (error) =>
+        this.logger.error('Redis subscriber error:', error),
+      );
+    }
+
+    this.listeners.set(channel, [
+      ...(this.listeners.get(channel) ?? []),
+      listener,
+    ]);
+
+    try {
+      await this.subscriber.subscribe(channel);
+      this.logger.log(`Subscribed to channel: ${channel}`);
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error(`Error subscribing to channel ${channel}:`, error);
+    }
+  }
+
+  /**
+   * Ejecuta un script Lua de forma atómica. Devuelve null si Redis
+   * no está disponible, para que el llamador use su alternativa local.
+   */
+  async eval(
+    script: string,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<unknown> {
+    this.metrics.operations++;
+    if (!this.isConnected) {
+      return null;
+    }
+
+    try {
+      return await this.client.eval(script, keys.length, ...keys, ...args);
+    } catch (error) {
+      this.metrics.errors++;
+      this.logger.error('Error evaluating script in Redis:', error);
+      return null;
+    }
+  }
+
   async mget(keys: string[]): Promise<(string | null)[]> {
     this.metrics.operations++;
     if (!this.isConnected) {
@@ -210,7 +507,15 @@ export class RedisService {
   }
 
   async quit(): Promise<void> {
+    // Sin conexión, QUIT quedaría esperando en la cola de comandos
+    if (!this.isConnected) {
+      this.subscriber?.disconnect();
+      this.client.disconnect();
+      return;
+    }
+
     try {
+      await this.subscriber?.quit();
       await this.client.quit();
       this.logger.log('Redis connection closed successfully');
     } catch (error) {
@@ -221,12 +526,13 @@ export class RedisService {
   /**
    * Obtiene métricas de rendimiento del cache
    */
-  getMetrics() {
+  getMetrics(): CacheStoreMetrics {
     const hitRate =
       this.metrics.operations > 0
         ? ((this.metrics.hits / this.metrics.operations) * 100).toFixed(2)
         : '0.00';
     return {
+      backend: 'redis',
       ...this.metrics,
       hitRate: `${hitRate}%`,
       isConnected: this.isConnected,
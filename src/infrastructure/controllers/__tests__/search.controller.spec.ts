@@ -0,0 +1,119 @@
+import { QueryBus } from '@nestjs/cqrs';
+import { FastifyReply } from 'fastify';
+
+import { AvailabilityResult } from '../../../domain/commands/get-availability.query';
+import { AdvancedCacheService } from '../../services/advanced-cache.service';
+import { AvailabilityStreamService } from '../../services/availability-stream.service';
+import { SearchController } from '../search.controller';
+
+describe('SearchController', () => {
+  let controller: SearchController;
+  let queryBus: { execute: jest.Mock };
+  let advancedCache: {
+    generateKey: jest.Mock;
+    getVersion: jest.Mock;
+    isFresh: jest.Mock;
+  };
+  let reply: { header: jest.Mock; status: jest.Mock };
+
+  const query = {
+    placeId: 'ChIJW9fXNZNTtpURV6VYAumGQOw',
+    date: new Date('2022-08-20T00:00:00.000Z'),
+  };
+  const clubs = [{ id: 166, name: 'Loyal Chacabuco', courts: [] }];
+  const fresh: AvailabilityResult = { clubs, isStale: false, age: 30 } as any;
+
+  const search = (ifNoneMatch?: string) =>
+    controller.searchAvailability(
+      query as any,
+      ifNoneMatch,
+      reply as unknown as FastifyReply,
+    );
+  const header = (name: string) =>
+    reply.header.mock.calls.find(([key]) => key === name)?.[1];
+
+  beforeEach(() => {
+    queryBus = { execute: jest.fn().mockResolvedValue(fresh) };
+    advancedCache = {
+      generateKey: jest.fn(
+        (type: string, ...params: string[]) => `${type}:${params.join(':')}`,
+      ),
+      getVersion: jest.fn().mockResolvedValue('7'),
+      isFresh: jest.fn().mockResolvedValue(true),
+    };
+    reply = { header: jest.fn(), status: jest.fn() };
+    controller = new SearchController(
+      queryBus as unknown as QueryBus,
+      {} as AvailabilityStreamService,
+      advancedCache as unknown as AdvancedCacheService,
+    );
+  });
+
+  it('should return the availability with its version as ETag', async () => {
+    const result = await search();
+
+    expect(result).toEqual(clubs);
+    expect(advancedCache.getVersion).toHaveBeenCalledWith(
+      'availability:ChIJW9fXNZNTtpURV6VYAumGQOw:2022-08-20',
+    );
+    expect(header('ETag')).toBe('"7"');
+    expect(header('Age')).toBe('30');
+    expect(header('X-Cache-Stale')).toBe('false');
+  });
+
+  it.each(['"7"', 'W/"7"', '"3", W/"7"', '*'])(
+    'should answer 304 for If-None-Match %s',
+    async (ifNoneMatch) => {
+      const result = await search(ifNoneMatch);
+
+      expect(result).toBeUndefined();
+      expect(reply.status).toHaveBeenCalledWith(304);
+      expect(header('ETag')).toBe('"7"');
+      expect(queryBus.execute).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should run the query when the ETag does not match', async () => {
+    await search('"6"');
+
+    expect(reply.status).not.toHaveBeenCalled();
+    expect(queryBus.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run the query when the cached entry expired', async () => {
+    advancedCache.isFresh.mockResolvedValue(false);
+
+    await search('"7"');
+
+    expect(reply.status).not.toHaveBeenCalled();
+    expect(queryBus.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the version left by the query, as a cache miss changes it', async () => {
+    advancedCache.getVersion
+      .mockResolvedValueOnce('7')
+      .mockResolvedValueOnce('8');
+
+    await search();
+
+    expect(header('ETag')).toBe('"8"');
+  });
+
+  it('should not send an ETag with stale data', async () => {
+    queryBus.execute.mockResolvedValue({ clubs, isStale: true, age: 400 });
+
+    await search();
+
+    expect(header('ETag')).toBeUndefined();
+    expect(header('X-Cache-Stale')).toBe('true');
+  });
+
+  it('should not send an ETag when the version cannot be read', async () => {
+    advancedCache.getVersion.mockResolvedValue(null);
+
+    await search('"7"');
+
+    expect(queryBus.execute).toHaveBeenCalledTimes(1);
+    expect(header('ETag')).toBeUndefined();
+  });
+});
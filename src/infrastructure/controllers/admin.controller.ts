@@ -0,0 +1,136 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+  UsePipes,
+} from '@nestjs/common';
+import * as moment from 'moment';
+import { createZodDto, ZodValidationPipe } from 'nestjs-zod';
+import { z } from 'nestjs-zod/z';
+
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { CacheEntryInfo } from '../services/advanced-cache.service';
+import { CacheAdminService } from '../services/cache-admin.service';
+import {
+  EventIngestionService,
+  ReplayResult,
+} from '../services/event-ingestion.service';
+
+// Tope de eventos por replay, para no saturar el procesamiento
+const MAX_REPLAY_EVENTS = 10000;
+
+const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((date) => moment(date, 'YYYY-MM-DD').isValid())
+  .transform((date) => moment(date, 'YYYY-MM-DD').toDate());
+
+const TimestampSchema = z
+  .string()
+  .refine((timestamp) => !Number.isNaN(Date.parse(timestamp)), {
+    message: 'Invalid timestamp',
+  })
+  .transform((timestamp) => new Date(timestamp));
+
+const IdSchema = z
+  .string()
+  .regex(/^\d+$/)
+  .transform((value) => parseInt(value, 10));
+
+class InspectCacheDTO extends createZodDto(
+  z.object({ key: z.string().min(1) }),
+) {}
+
+class InvalidateCacheDTO extends createZodDto(
+  z
+    .object({
+      clubId: IdSchema.optional(),
+      courtId: IdSchema.optional(),
+      placeId: z.string().min(1).optional(),
+      date: DateSchema.optional(),
+    })
+    .refine((query) => query.clubId !== undefined || query.placeId, {
+      message: '`clubId` or `placeId` is required',
+    })
+    .refine((query) => query.courtId === undefined || query.clubId, {
+      message: '`courtId` requires `clubId`',
+      path: ['courtId'],
+    })
+    .refine((query) => !query.date || query.placeId, {
+      message: '`date` requires `placeId`',
+      path: ['date'],
+    }),
+) {}
+
+class RefreshCacheDTO extends createZodDto(
+  z.object({ placeId: z.string().min(1), date: DateSchema }),
+) {}
+
+class ReplayEventsDTO extends createZodDto(
+  z
+    .object({
+      since: TimestampSchema,
+      until: TimestampSchema.optional(),
+      limit: z.number().int().positive().max(MAX_REPLAY_EVENTS).optional(),
+    })
+    .refine((body) => !body.until || body.until >= body.since, {
+      message: '`until` must not be earlier than `since`',
+      path: ['until'],
+    }),
+) {}
+
+/**
+ * Rutas de operación para cuando el cache queda desincronizado.
+ * Requieren `Authorization: Bearer <ADMIN_TOKEN>` (ver AdminAuthGuard).
+ */
+@Controller('admin')
+@UseGuards(AdminAuthGuard)
+export class AdminController {
+  constructor(
+    private readonly cacheAdmin: CacheAdminService,
+    private readonly eventIngestion: EventIngestionService,
+  ) {}
+
+  @Get('cache')
+  @UsePipes(ZodValidationPipe)
+  inspectCache(@Query() query: InspectCacheDTO): Promise<CacheEntryInfo> {
+    return this.cacheAdmin.inspect(query.key);
+  }
+
+  @Delete('cache')
+  @UsePipes(ZodValidationPipe)
+  async invalidateCache(
+    @Query() query: InvalidateCacheDTO,
+  ): Promise<{ invalidated: number }> {
+    return { invalidated: await this.cacheAdmin.invalidate(query) };
+  }
+
+  @Delete('cache/all')
+  async invalidateAll(): Promise<{ invalidated: number }> {
+    return { invalidated: await this.cacheAdmin.invalidateAll() };
+  }
+
+  @Post('cache/refresh')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(ZodValidationPipe)
+  refreshCache(@Body() body: RefreshCacheDTO): Promise<CacheEntryInfo> {
+    return this.cacheAdmin.refresh(body.placeId, body.date);
+  }
+
+  /**
+   * Vuelve a aplicar sobre el cache los eventos recibidos desde `since`,
+   * aunque ya se hubieran procesado
+   */
+  @Post('events/replay')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(ZodValidationPipe)
+  replayEvents(@Body() body: ReplayEventsDTO): Promise<ReplayResult> {
+    return this.eventIngestion.replay(body.since, body.until, body.limit);
+  }
+}
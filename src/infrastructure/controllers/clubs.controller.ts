@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  UsePipes,
+} from '@nestjs/common';
+import { QueryBus } from '@nestjs/cqrs';
+import { createZodDto, ZodValidationPipe } from 'nestjs-zod';
+import { z } from 'nestjs-zod/z';
+
+import { GetClubQuery } from '../../domain/commands/get-club.query';
+import { GetCourtQuery } from '../../domain/commands/get-court.query';
+import { Club, Court } from '../../domain/model';
+import { ResourceNotFoundError } from '../../domain/ports/aquila-tu-cancha.client';
+
+const IdSchema = z
+  .string()
+  .regex(/^\d+$/)
+  .transform((value) => parseInt(value, 10));
+
+class ClubParamsDTO extends createZodDto(z.object({ id: IdSchema })) {}
+
+class CourtParamsDTO extends createZodDto(
+  z.object({ id: IdSchema, courtId: IdSchema }),
+) {}
+
+/**
+ * Detalle de clubs y canchas, para las páginas de club del front-end
+ */
+@Controller('clubs')
+export class ClubsController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get(':id')
+  @UsePipes(ZodValidationPipe)
+  getClub(@Param() params: ClubParamsDTO): Promise<Club> {
+    return this.execute(new GetClubQuery(params.id));
+  }
+
+  @Get(':id/courts/:courtId')
+  @UsePipes(ZodValidationPipe)
+  getCourt(@Param() params: CourtParamsDTO): Promise<Court> {
+    return this.execute(new GetCourtQuery(params.id, params.courtId));
+  }
+
+  private async execute<T>(query: GetClubQuery | GetCourtQuery): Promise<T> {
+    try {
+      return await this.queryBus.execute(query);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        throw new NotFoundException(error.message);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+
+import { HealthReport, HealthService } from '../services/health.service';
+
+/**
+ * Sondas para el orquestador:
+ * - `/health/live`: el proceso responde; si falla hay que reiniciarlo
+ * - `/health/ready`: puede atender búsquedas (cache o API disponibles);
+ *   responde 503 si no, o mientras se apaga
+ */
+@Controller('health')
+export class HealthController {
+  constructor(private readonly health: HealthService) {}
+
+  @Get('live')
+  getLiveness() {
+    return { status: 'ok', uptime: process.uptime() };
+  }
+
+  @Get('ready')
+  getReadiness(): HealthReport {
+    const report = this.health.getReport();
+    if (!report.ready) {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
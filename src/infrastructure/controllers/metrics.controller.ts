@@ -1,28 +1,46 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Header, Inject } from '@nestjs/common';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import { HTTPAlquilaTuCanchaClient } from '../clients/http-alquila-tu-cancha.client';
 import { AdvancedCacheService } from '../services/advanced-cache.service';
+import { AvailabilityStreamService } from '../services/availability-stream.service';
+import { CacheWarmerService } from '../services/cache-warmer.service';
 import { CircuitBreakerService } from '../services/circuit-breaker.service';
+import { EventIngestionService } from '../services/event-ingestion.service';
+import { HealthReport, HealthService } from '../services/health.service';
+import { L1CacheService } from '../services/l1-cache.service';
+import { PrometheusService } from '../services/prometheus.service';
+import { QueryStatsService } from '../services/query-stats.service';
 import { RequestBatcherService } from '../services/request-batcher.service';
-import { RedisService } from '../clients/redis.service';
-import { HTTPAlquilaTuCanchaClient } from '../clients/http-alquila-tu-cancha.client';
-import { EventsController } from './events.controller';
+import { UpstreamSchedulerService } from '../services/upstream-scheduler.service';
 
 /**
  * Controlador de métricas para monitoreo del sistema
  * Proporciona información sobre:
- * - Estado del cache Redis
- * - Métricas del circuit breaker
+ * - Estado del cache store (Redis o memoria)
+ * - Métricas de los circuit breakers por endpoint
  * - Estadísticas de eventos procesados
+ * - Estado del cache warmer y consultas más frecuentes
  * - Rendimiento general del sistema
+ * - Histogramas y contadores en formato Prometheus (`/metrics/prometheus`)
  */
 @Controller('metrics')
 export class MetricsController {
   constructor(
-    private readonly redisService: RedisService,
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
     private readonly advancedCache: AdvancedCacheService,
+    private readonly l1Cache: L1CacheService,
     private readonly circuitBreaker: CircuitBreakerService,
     private readonly requestBatcher: RequestBatcherService,
+    private readonly scheduler: UpstreamSchedulerService,
+    private readonly cacheWarmer: CacheWarmerService,
+    private readonly queryStats: QueryStatsService,
+    private readonly availabilityStream: AvailabilityStreamService,
     private readonly httpClient: HTTPAlquilaTuCanchaClient,
-    private readonly eventsController: EventsController,
+    private readonly eventIngestion: EventIngestionService,
+    private readonly prometheus: PrometheusService,
+    private readonly health: HealthService,
   ) {}
 
   @Get()
@@ -34,35 +52,40 @@ export class MetricsController {
         memory: process.memoryUsage(),
         nodeVersion: process.version,
       },
-      redis: this.redisService.getMetrics(),
-      circuitBreaker: this.circuitBreaker.getMetrics(),
-      events: this.eventsController.getEventMetrics(),
+      cacheStore: this.cacheStore.getMetrics(),
+      cache: this.advancedCache.getMetrics(),
+      l1Cache: this.l1Cache.getMetrics(),
+      circuitBreakers: this.circuitBreaker.getAllMetrics(),
+      events: this.eventIngestion.getMetrics(),
       httpClient: this.httpClient.getMetrics(),
+      scheduler: this.scheduler.getMetrics(),
+      warmup: this.cacheWarmer.getMetrics(),
+      queryStats: this.queryStats.getMetrics(),
+      stream: this.availabilityStream.getMetrics(),
     };
   }
 
+  @Get('prometheus')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  getPrometheusMetrics(): string {
+    return this.prometheus.render();
+  }
+
+  /**
+   * Sin Redis o sin la API el estado es `degraded`, no `unhealthy`:
+   * el servicio sigue respondiendo (ver también `/health/ready`)
+   */
   @Get('health')
-  async getHealth() {
-    const redisHealthy = this.redisService.isHealthy();
-    const circuitBreakerState = this.circuitBreaker.getState();
-    
-    const isHealthy = redisHealthy && circuitBreakerState !== 'OPEN';
-    
-    return {
-      status: isHealthy ? 'healthy' : 'unhealthy',
-      checks: {
-        redis: redisHealthy ? 'healthy' : 'unhealthy',
-        circuitBreaker: circuitBreakerState,
-        api: circuitBreakerState !== 'OPEN' ? 'healthy' : 'degraded',
-      },
-      timestamp: new Date().toISOString(),
-    };
+  getHealth(): HealthReport {
+    return this.health.getReport();
   }
 
   @Get('cache')
   async getCacheMetrics() {
     return {
-      redis: this.redisService.getMetrics(),
+      cacheStore: this.cacheStore.getMetrics(),
+      l1: this.l1Cache.getMetrics(),
+      invalidation: this.advancedCache.getMetrics(),
       timestamp: new Date().toISOString(),
     };
   }
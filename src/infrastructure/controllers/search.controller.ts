@@ -1,36 +1,215 @@
-import { Controller, Get, Query, UsePipes } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Headers,
+  MessageEvent,
+  Query,
+  Res,
+  Sse,
+  UsePipes,
+} from '@nestjs/common';
 import { QueryBus } from '@nestjs/cqrs';
+import { FastifyReply } from 'fastify';
+import * as moment from 'moment';
 import { createZodDto, ZodValidationPipe } from 'nestjs-zod';
 import { z } from 'nestjs-zod/z';
-import * as moment from 'moment';
+import { interval, map, merge, Observable, takeUntil } from 'rxjs';
 
 import {
+  AvailabilityResult,
   ClubWithAvailability,
   GetAvailabilityQuery,
 } from '../../domain/commands/get-availability.query';
+import {
+  AvailabilityForDate,
+  GetAvailabilityRangeQuery,
+} from '../../domain/commands/get-availability-range.query';
+import { AdvancedCacheService } from '../services/advanced-cache.service';
+import { AvailabilityStreamService } from '../services/availability-stream.service';
+
+// Las consultas se limitan a los próximos 7 días
+const MAX_RANGE_DAYS = 7;
+
+// Mantiene viva la conexión SSE a través de proxies con timeout de inactividad
+const STREAM_HEARTBEAT_MS = 15000;
+
+const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((date) => moment(date, 'YYYY-MM-DD').isValid())
+  .transform((date) => moment(date, 'YYYY-MM-DD').toDate());
+
+const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const NumberSchema = z
+  .string()
+  .regex(/^\d+$/)
+  .transform((value) => parseInt(value, 10));
+
+const BooleanSchema = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true');
+
+const GetAvailabilitySchema = z
+  .object({
+    placeId: z.string(),
+    date: DateSchema,
+    sport: z
+      .string()
+      .transform((sport) => sport.toUpperCase())
+      .optional(),
+    from: TimeSchema.optional(),
+    to: TimeSchema.optional(),
+    maxPrice: NumberSchema.optional(),
+    duration: NumberSchema.optional(),
+    roofed: BooleanSchema.optional(),
+    light: BooleanSchema.optional(),
+    floor: z.string().optional(),
+    attributes: z
+      .string()
+      .transform((attributes) =>
+        attributes
+          .split(',')
+          .map((attribute) => attribute.trim())
+          .filter(Boolean),
+      )
+      .optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: '`from` must not be later than `to`',
+    path: ['to'],
+  });
+
+class GetAvailabilityDTO extends createZodDto(GetAvailabilitySchema) {}
+
+const GetAvailabilityRangeSchema = z
+  .object({
+    placeId: z.string(),
+    from: DateSchema,
+    to: DateSchema,
+  })
+  .refine((query) => !moment(query.to).isBefore(query.from, 'day'), {
+    message: '`to` must not be earlier than `from`',
+    path: ['to'],
+  })
+  .refine(
+    (query) => moment(query.to).diff(query.from, 'days') < MAX_RANGE_DAYS,
+    {
+      message: `Range must not exceed ${MAX_RANGE_DAYS} days`,
+      path: ['to'],
+    },
+  );
+
+class GetAvailabilityRangeDTO extends createZodDto(
+  GetAvailabilityRangeSchema,
+) {}
 
-const GetAvailabilitySchema = z.object({
+const GetAvailabilityStreamSchema = z.object({
   placeId: z.string(),
-  date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/)
-    .refine((date) => moment(date, 'YYYY-MM-DD').isValid())
-    .transform((date) => moment(date, 'YYYY-MM-DD').toDate()),
+  date: DateSchema,
 });
 
-class GetAvailabilityDTO extends createZodDto(GetAvailabilitySchema) {}
+class GetAvailabilityStreamDTO extends createZodDto(
+  GetAvailabilityStreamSchema,
+) {}
+
+// Comparación débil de `If-None-Match`: `W/"1"` coincide con `"1"`
+function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag.replace(/^W\//, '') === etag);
+}
 
 @Controller('search')
 export class SearchController {
-  constructor(private readonly queryBus: QueryBus) {}
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly availabilityStream: AvailabilityStreamService,
+    private readonly advancedCache: AdvancedCacheService,
+  ) {}
 
+  /**
+   * Informa la frescura de la respuesta en los headers:
+   * - `Age`: segundos desde que los datos se obtuvieron de la API
+   * - `X-Cache-Stale`: true si se sirvió una copia desactualizada
+   * - `ETag`: versión de la disponibilidad de la zona y fecha, que cambia con
+   *   cada evento que la afecta. Con `If-None-Match` se responde 304 sin leer
+   *   los datos cacheados.
+   */
   @Get()
   @UsePipes(ZodValidationPipe)
-  searchAvailability(
+  async searchAvailability(
     @Query() query: GetAvailabilityDTO,
-  ): Promise<ClubWithAvailability[]> {
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<ClubWithAvailability[] | undefined> {
+    const { placeId, date, ...filters } = query;
+    const cacheKey = this.advancedCache.generateKey(
+      'availability',
+      placeId,
+      date.toISOString().split('T')[0],
+    );
+
+    const version = await this.advancedCache.getVersion(cacheKey);
+    const etag = version && `"${version}"`;
+    if (
+      etag &&
+      matchesETag(ifNoneMatch, etag) &&
+      (await this.advancedCache.isFresh(cacheKey))
+    ) {
+      reply.header('ETag', etag);
+      reply.status(304);
+      return undefined;
+    }
+
+    const result: AvailabilityResult = await this.queryBus.execute(
+      new GetAvailabilityQuery(placeId, date, filters),
+    );
+
+    reply.header('Age', String(result.age));
+    reply.header('X-Cache-Stale', String(result.isStale));
+    // La versión se vuelve a leer: en un miss la propia consulta la cambia al
+    // cachear el resultado. Una copia desactualizada no corresponde a ninguna
+    if (!result.isStale) {
+      const current = await this.advancedCache.getVersion(cacheKey);
+      if (current) {
+        reply.header('ETag', `"${current}"`);
+      }
+    }
+    return result.clubs;
+  }
+
+  /**
+   * Stream SSE de cambios de disponibilidad de la zona y fecha:
+   * `slot_removed`, `slot_added`, `court_updated` y `club_updated`
+   */
+  @Sse('stream')
+  @UsePipes(ZodValidationPipe)
+  streamAvailability(
+    @Query() query: GetAvailabilityStreamDTO,
+  ): Observable<MessageEvent> {
+    const date = moment(query.date).format('YYYY-MM-DD');
+    return merge(
+      this.availabilityStream
+        .watch(query.placeId, date)
+        .pipe(map((change) => ({ type: change.type, data: change }))),
+      interval(STREAM_HEARTBEAT_MS).pipe(
+        map(() => ({ type: 'heartbeat', data: {} })),
+      ),
+    ).pipe(takeUntil(this.availabilityStream.closed()));
+  }
+
+  @Get('range')
+  @UsePipes(ZodValidationPipe)
+  searchAvailabilityRange(
+    @Query() query: GetAvailabilityRangeDTO,
+  ): Promise<AvailabilityForDate[]> {
     return this.queryBus.execute(
-      new GetAvailabilityQuery(query.placeId, query.date),
+      new GetAvailabilityRangeQuery(query.placeId, query.from, query.to),
     );
   }
 }
@@ -0,0 +1,15 @@
+import { Controller, Get } from '@nestjs/common';
+import { QueryBus } from '@nestjs/cqrs';
+
+import { GetZonesQuery } from '../../domain/commands/get-zones.query';
+import { Zone } from '../../domain/model';
+
+@Controller('zones')
+export class ZonesController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get()
+  getZones(): Promise<Zone[]> {
+    return this.queryBus.execute(new GetZonesQuery());
+  }
+}
@@ -0,0 +1,47 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { AdminAuthGuard } from '../admin-auth.guard';
+
+describe('AdminAuthGuard', () => {
+  const createGuard = (config: Record<string, unknown> = {}) =>
+    new AdminAuthGuard(
+      new ConfigService({ ADMIN_TOKEN: 'admin-token', ...config }),
+    );
+
+  const contextFor = (authorization?: string): ExecutionContext =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers: authorization ? { authorization } : {},
+          ip: '203.0.113.7',
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  it('should accept the configured bearer token', () => {
+    expect(createGuard().canActivate(contextFor('Bearer admin-token'))).toBe(
+      true,
+    );
+  });
+
+  it('should reject missing or invalid tokens', () => {
+    const guard = createGuard();
+
+    expect(() => guard.canActivate(contextFor())).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(contextFor('Bearer other-token'))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(contextFor('Basic admin-token'))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject every request when no token is configured', () => {
+    expect(() =>
+      createGuard({ ADMIN_TOKEN: '' }).canActivate(contextFor('Bearer ')),
+    ).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,118 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import {
+  SIGNATURE_HEADER,
+  signWebhook,
+  TIMESTAMP_HEADER,
+  WebhookSignatureGuard,
+} from '../webhook-signature.guard';
+
+describe('WebhookSignatureGuard', () => {
+  const secret = 'shared-secret';
+  const body = '{"type":"club_updated","clubId":1,"fields":[]}';
+  const now = 1660989600;
+  let clock: jest.SpyInstance<number, []>;
+
+  const createGuard = (config: Record<string, unknown> = {}) =>
+    new WebhookSignatureGuard(
+      new InMemoryCacheService(new ConfigService()),
+      new ConfigService({ WEBHOOK_SECRET: secret, ...config }),
+    );
+
+  const contextFor = (
+    headers: Record<string, string>,
+    ip = '203.0.113.7',
+  ): ExecutionContext =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers,
+          ip,
+          rawBody: Buffer.from(body),
+          body: JSON.parse(body),
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  const signed = (timestamp = now, key = secret) => ({
+    [SIGNATURE_HEADER]: signWebhook(key, timestamp, body),
+    [TIMESTAMP_HEADER]: String(timestamp),
+  });
+
+  beforeEach(() => {
+    clock = jest.spyOn(Date, 'now').mockReturnValue(now * 1000);
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  it('should accept requests signed with the shared secret', async () => {
+    await expect(createGuard().canActivate(contextFor(signed()))).resolves.toBe(
+      true,
+    );
+  });
+
+  it('should reject invalid signatures', async () => {
+    await expect(
+      createGuard().canActivate(contextFor(signed(now, 'other-secret'))),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject timestamps outside the tolerance', async () => {
+    await expect(
+      createGuard().canActivate(contextFor(signed(now - 301))),
+    ).rejects.toThrow('Webhook timestamp outside tolerance');
+  });
+
+  it('should reject a replayed request', async () => {
+    const guard = createGuard();
+    await guard.canActivate(contextFor(signed()));
+
+    await expect(guard.canActivate(contextFor(signed()))).rejects.toThrow(
+      'Webhook already received',
+    );
+  });
+
+  it('should reject unsigned requests in signature mode', async () => {
+    await expect(
+      createGuard().canActivate(contextFor({}, '127.0.0.1')),
+    ).rejects.toThrow('Missing webhook signature');
+  });
+
+  it('should require a secret in signature mode', () => {
+    expect(() => createGuard({ WEBHOOK_SECRET: '' })).toThrow(
+      'WEBHOOK_SECRET is required',
+    );
+    expect(() =>
+      createGuard({ WEBHOOK_SECRET: '', WEBHOOK_AUTH_MODE: 'allowlist' }),
+    ).not.toThrow();
+  });
+
+  it('should accept unsigned requests from allowlisted sources', async () => {
+    const guard = createGuard({
+      WEBHOOK_AUTH_MODE: 'allowlist',
+      WEBHOOK_ALLOWED_IPS: '127.0.0.1, 172.16.0.0/12',
+    });
+
+    await expect(
+      guard.canActivate(contextFor({}, '::ffff:172.18.0.3')),
+    ).resolves.toBe(true);
+    await expect(guard.canActivate(contextFor({}, '127.0.0.1'))).resolves.toBe(
+      true,
+    );
+    await expect(
+      guard.canActivate(contextFor({}, '192.168.1.10')),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should still verify signed requests in allowlist mode', async () => {
+    const guard = createGuard({ WEBHOOK_AUTH_MODE: 'allowlist' });
+
+    await expect(
+      guard.canActivate(contextFor(signed(now, 'other-secret'), '127.0.0.1')),
+    ).rejects.toThrow('Invalid webhook signature');
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { FastifyRequest } from 'fastify';
+
+/**
+ * Protege las rutas de administración con `Authorization: Bearer <ADMIN_TOKEN>`.
+ * Sin `ADMIN_TOKEN` configurado se rechazan todos los requests.
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  private readonly logger = new Logger(AdminAuthGuard.name);
+
+  private readonly token: string | undefined;
+
+  constructor(private readonly configService: ConfigService) {
+    this.token = this.configService.get<string>('ADMIN_TOKEN') || undefined;
+
+    if (!this.token) {
+      this.logger.warn('ADMIN_TOKEN is not set: admin routes are disabled');
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const [scheme, credentials] = (request.headers.authorization ?? '').split(
+      ' ',
+    );
+
+    if (
+      !this.token ||
+      scheme !== 'Bearer' ||
+      !credentials ||
+      !this.safeEqual(credentials, this.token)
+    ) {
+      this.logger.warn(`Rejected admin request from ${request.ip}`);
+      throw new UnauthorizedException('Invalid admin token');
+    }
+    return true;
+  }
+
+  private safeEqual(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
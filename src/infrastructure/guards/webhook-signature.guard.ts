@@ -0,0 +1,174 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { FastifyRequest } from 'fastify';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+export type WebhookAuthMode = 'signature' | 'allowlist';
+
+/**
+ * Firma `sha256=<hex>` de `<timestamp>.<body>` con el secreto compartido
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string | Buffer,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verifica que los webhooks de `/events` vengan de la API:
+ * - Firma HMAC-SHA256 del timestamp y el body crudo con `WEBHOOK_SECRET`
+ * - El timestamp debe estar dentro de `WEBHOOK_TOLERANCE_SECONDS` y cada
+ *   firma se acepta una sola vez, así no se pueden reenviar requests capturados
+ * - Con `WEBHOOK_AUTH_MODE=allowlist` se aceptan además requests sin firmar
+ *   desde `WEBHOOK_ALLOWED_IPS` (IPs o rangos CIDR), para el mock local
+ * - En modo `signature` (el default) `WEBHOOK_SECRET` es obligatorio
+ */
+@Injectable()
+export class WebhookSignatureGuard implements CanActivate {
+  private readonly logger = new Logger(WebhookSignatureGuard.name);
+
+  private readonly secret: string | undefined;
+  private readonly mode: WebhookAuthMode;
+  private readonly toleranceSeconds: number;
+  private readonly allowedSources: string[];
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.secret = this.configService.get<string>('WEBHOOK_SECRET') || undefined;
+    this.mode = this.configService.get<WebhookAuthMode>(
+      'WEBHOOK_AUTH_MODE',
+      'signature',
+    );
+    this.toleranceSeconds = Number(
+      this.configService.get<number>('WEBHOOK_TOLERANCE_SECONDS', 300),
+    );
+    this.allowedSources = this.configService
+      .get<string>('WEBHOOK_ALLOWED_IPS', '127.0.0.1,::1')
+      .split(',')
+      .map((source) => source.trim())
+      .filter((source) => source !== '');
+
+    // Sin secreto ningún evento pasaría el guard: se falla al arrancar
+    if (!this.secret && this.mode === 'signature') {
+      throw new Error(
+        'WEBHOOK_SECRET is required when WEBHOOK_AUTH_MODE is signature',
+      );
+    }
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<RawBodyRequest<FastifyRequest>>();
+    const signature = request.headers[SIGNATURE_HEADER];
+
+    if (typeof signature === 'string' && this.secret) {
+      await this.verify(request, signature);
+      return true;
+    }
+
+    if (this.mode === 'allowlist' && this.isAllowed(request.ip)) {
+      return true;
+    }
+
+    this.logger.warn(`Rejected unsigned webhook from ${request.ip}`);
+    throw new UnauthorizedException('Missing webhook signature');
+  }
+
+  private async verify(
+    request: RawBodyRequest<FastifyRequest>,
+    signature: string,
+  ): Promise<void> {
+    const timestamp = Number(request.headers[TIMESTAMP_HEADER]);
+    if (!Number.isInteger(timestamp)) {
+      throw new UnauthorizedException('Missing webhook timestamp');
+    }
+
+    const age = Math.abs(Date.now() / 1000 - timestamp);
+    if (age > this.toleranceSeconds) {
+      this.logger.warn(
+        `Rejected webhook with timestamp ${Math.round(age)}s off`,
+      );
+      throw new UnauthorizedException('Webhook timestamp outside tolerance');
+    }
+
+    // Sin rawBody (la app no se creó con `rawBody: true`) se firma el JSON
+    const body = request.rawBody ?? JSON.stringify(request.body);
+    const expected = signWebhook(this.secret as string, timestamp, body);
+    if (!this.safeEqual(signature, expected)) {
+      this.logger.warn(
+        `Rejected webhook with invalid signature from ${request.ip}`,
+      );
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    // La firma incluye el timestamp: basta recordarla mientras sea válida
+    const firstUse = await this.cacheStore.setIfAbsent(
+      `webhook:signature:${expected}`,
+      '1',
+      this.toleranceSeconds * 2,
+    );
+    if (!firstUse) {
+      this.logger.warn(`Rejected replayed webhook from ${request.ip}`);
+      throw new UnauthorizedException('Webhook already received');
+    }
+  }
+
+  private safeEqual(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private isAllowed(ip: string): boolean {
+    // IPv4 mapeada a IPv6 (::ffff:10.0.0.1) cuando el socket escucha en ambas
+    const address = ip.replace(/^::ffff:/, '');
+    return this.allowedSources.some((source) =>
+      source.includes('/') ? inCidr(address, source) : source === address,
+    );
+  }
+}
+
+function inCidr(address: string, cidr: string): boolean {
+  const [range, bits] = cidr.split('/');
+  const ip = ipv4ToNumber(address);
+  const base = ipv4ToNumber(range);
+  if (ip === null || base === null) {
+    return false;
+  }
+  const mask = Number(bits) === 0 ? 0 : (~0 << (32 - Number(bits))) >>> 0;
+  return (ip & mask) >>> 0 === (base & mask) >>> 0;
+}
+
+function ipv4ToNumber(address: string): number | null {
+  const parts = address.split('.').map(Number);
+  if (
+    parts.length !== 4 ||
+    parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)
+  ) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 256 + part, 0);
+}
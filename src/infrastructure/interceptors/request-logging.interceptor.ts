@@ -0,0 +1,54 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { finalize, Observable, tap } from 'rxjs';
+
+/**
+ * Registra cada request terminado con método, url, status y duración.
+ * Corre dentro de la traza de TracingInterceptor, así la línea lleva el
+ * request id.
+ */
+@Injectable()
+export class RequestLoggingInterceptor implements NestInterceptor {
+  private readonly logger = new Logger('HTTP');
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<FastifyRequest>();
+    const reply = http.getResponse<FastifyReply>();
+    const startTime = Date.now();
+
+    let failedWith: number | null = null;
+
+    return next.handle().pipe(
+      tap({
+        error: (error) => {
+          failedWith = error instanceof HttpException ? error.getStatus() : 500;
+        },
+      }),
+      finalize(() => {
+        const statusCode = failedWith ?? reply.statusCode;
+        const fields = {
+          msg: 'Request completed',
+          method: request.method,
+          url: request.url,
+          statusCode,
+          durationMs: Date.now() - startTime,
+        };
+        if (statusCode >= 500) {
+          this.logger.error(fields);
+        } else if (statusCode >= 400) {
+          this.logger.warn(fields);
+        } else {
+          this.logger.log(fields);
+        }
+      }),
+    );
+  }
+}
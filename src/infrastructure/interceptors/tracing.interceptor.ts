@@ -0,0 +1,71 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { finalize, Observable, tap } from 'rxjs';
+
+import { TracingService } from '../services/tracing.service';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Se aceptan ids razonables del cliente; cualquier otro se reemplaza
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Abre una traza por request:
+ * - Usa el `x-request-id` entrante o genera uno, y lo devuelve en la respuesta
+ * - El span raíz cubre al handler completo, incluido un stream SSE
+ */
+@Injectable()
+export class TracingInterceptor implements NestInterceptor {
+  constructor(private readonly tracing: TracingService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<FastifyRequest>();
+    const reply = http.getResponse<FastifyReply>();
+
+    const incoming = request.headers[REQUEST_ID_HEADER];
+    const requestId =
+      typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming)
+        ? incoming
+        : randomUUID();
+    reply.header(REQUEST_ID_HEADER, requestId);
+
+    // La suscripción ocurre dentro de la traza, así el handler corre en ella
+    return new Observable((subscriber) =>
+      this.tracing.startTrace(requestId, () => {
+        const span = this.tracing.startSpan('http.request', {
+          method: request.method,
+          url: request.url,
+        });
+        const handle = () =>
+          next
+            .handle()
+            .pipe(
+              tap({
+                error: (error) => {
+                  span?.setAttributes({
+                    statusCode:
+                      error instanceof HttpException ? error.getStatus() : 500,
+                  });
+                  span?.end(error);
+                },
+              }),
+              finalize(() => {
+                span?.setAttributes({ statusCode: reply.statusCode });
+                span?.end();
+              }),
+            )
+            .subscribe(subscriber);
+
+        return span ? this.tracing.runInSpan(span, handle) : handle();
+      }),
+    );
+  }
+}
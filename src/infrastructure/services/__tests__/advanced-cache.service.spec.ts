@@ -1,30 +1,50 @@
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
-import { AdvancedCacheService } from '../advanced-cache.service';
-import { RedisService } from '../../clients/redis.service';
+
+import { CACHE_STORE } from '../../../domain/ports/cache-store';
+import { SPAN_EXPORTER } from '../../../domain/ports/span-exporter';
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import {
+  AdvancedCacheService,
+  CacheWriteError,
+} from '../advanced-cache.service';
+import { L1CacheService } from '../l1-cache.service';
+import { PrometheusService } from '../prometheus.service';
+import { TracingService } from '../tracing.service';
 
 describe('AdvancedCacheService', () => {
   let service: AdvancedCacheService;
-  let redisService: jest.Mocked<RedisService>;
+  let cacheStore: InMemoryCacheService;
+  let module: TestingModule;
 
   beforeEach(async () => {
-    const mockRedisService = {
-      get: jest.fn(),
-      set: jest.fn(),
-      del: jest.fn(),
-    };
+    cacheStore = new InMemoryCacheService(new ConfigService());
 
-    const module: TestingModule = await Test.createTestingModule({
+    module = await Test.createTestingModule({
       providers: [
         AdvancedCacheService,
+        L1CacheService,
+        PrometheusService,
+        TracingService,
+        {
+          provide: SPAN_EXPORTER,
+          useValue: {
+            export: jest.fn().mockResolvedValue(undefined),
+            close: jest.fn(),
+          },
+        },
+        {
+          provide: CACHE_STORE,
+          useValue: cacheStore,
+        },
         {
-          provide: RedisService,
-          useValue: mockRedisService,
+          provide: ConfigService,
+          useValue: new ConfigService(),
         },
       ],
     }).compile();
 
     service = module.get<AdvancedCacheService>(AdvancedCacheService);
-    redisService = module.get(RedisService);
   });
 
   it('should be defined', () => {
@@ -34,41 +54,35 @@ describe('AdvancedCacheService', () => {
   describe('getWithFallback', () => {
     it('should return fresh data when available', async () => {
       const testData = { id: 1, name: 'Test Club' };
-      redisService.get.mockResolvedValueOnce(JSON.stringify(testData));
+      await cacheStore.set('test-key', JSON.stringify(testData));
 
       const result = await service.getWithFallback('test-key');
 
       expect(result.data).toEqual(testData);
       expect(result.isStale).toBe(false);
-      expect(redisService.get).toHaveBeenCalledWith('test-key');
     });
 
     it('should return stale data when fresh data is not available', async () => {
       const testData = { id: 1, name: 'Test Club' };
-      redisService.get
-        .mockResolvedValueOnce(null) // No fresh data
-        .mockResolvedValueOnce(JSON.stringify(testData)); // Stale data available
+      await cacheStore.set('stale-key', JSON.stringify(testData));
 
       const result = await service.getWithFallback('test-key', 'stale-key');
 
       expect(result.data).toEqual(testData);
       expect(result.isStale).toBe(true);
-      expect(redisService.get).toHaveBeenCalledTimes(2);
     });
 
     it('should return null when no data is available', async () => {
-      redisService.get
-        .mockResolvedValueOnce(null) // No fresh data
-        .mockResolvedValueOnce(null); // No stale data
-
       const result = await service.getWithFallback('test-key', 'stale-key');
 
       expect(result.data).toBeNull();
       expect(result.isStale).toBe(false);
     });
 
-    it('should handle Redis errors gracefully', async () => {
-      redisService.get.mockRejectedValueOnce(new Error('Redis connection failed'));
+    it('should handle store errors gracefully', async () => {
+      jest
+        .spyOn(cacheStore, 'get')
+        .mockRejectedValueOnce(new Error('Redis connection failed'));
 
       const result = await service.getWithFallback('test-key');
 
@@ -77,41 +91,378 @@ describe('AdvancedCacheService', () => {
     });
   });
 
+  describe('getWithAge', () => {
+    const key = 'availability:place:2022-08-20';
+    const staleKey = 'availability:stale:place:2022-08-20';
+    let clock: jest.SpyInstance<number, []>;
+    const now = Date.now();
+
+    beforeEach(async () => {
+      clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await service.setWithIntelligentTTL(
+        key,
+        [{ id: 1 }],
+        'AVAILABILITY',
+        staleKey,
+      );
+    });
+
+    afterEach(() => {
+      clock.mockRestore();
+    });
+
+    it('should derive the age of fresh data from its remaining TTL', async () => {
+      clock.mockReturnValue(now + 60 * 1000);
+
+      const result = await service.getWithAge(key, staleKey);
+
+      expect(result).toEqual({ data: [{ id: 1 }], isStale: false, age: 60 });
+    });
+
+    it('should report the age of stale data', async () => {
+      clock.mockReturnValue(now + 200 * 1000);
+
+      const result = await service.getWithAge(key, staleKey);
+
+      expect(result).toEqual({ data: [{ id: 1 }], isStale: true, age: 200 });
+    });
+
+    it('should keep the original age when served from L1', async () => {
+      clock.mockReturnValue(now + 3 * 1000);
+      const get = jest.spyOn(cacheStore, 'get');
+
+      const result = await service.getWithAge(key, staleKey);
+
+      expect(result.age).toBe(3);
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOrLoad', () => {
+    const club = { id: 1, name: 'Test Club' };
+
+    it('should not call the loader while fresh data is cached', async () => {
+      await cacheStore.set('club:1', JSON.stringify(club), 3600);
+      const load = jest.fn();
+
+      const result = await service.getOrLoad('club:1', 'club:stale:1', load);
+
+      expect(result).toEqual(club);
+      expect(load).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to stale data when the loader fails', async () => {
+      await cacheStore.set('club:stale:1', JSON.stringify(club), 7200);
+
+      const result = await service.getOrLoad('club:1', 'club:stale:1', () =>
+        Promise.reject(new Error('API Error')),
+      );
+
+      expect(result).toEqual(club);
+    });
+
+    it('should rethrow errors that do not admit stale data', async () => {
+      await cacheStore.set('club:stale:1', JSON.stringify(club), 7200);
+      const error = new Error('Not found');
+
+      await expect(
+        service.getOrLoad(
+          'club:1',
+          'club:stale:1',
+          () => Promise.reject(error),
+          () => false,
+        ),
+      ).rejects.toBe(error);
+    });
+  });
+
   describe('setWithIntelligentTTL', () => {
     it('should set data with correct TTL for CLUBS', async () => {
       const testData = { id: 1, name: 'Test Club' };
-      redisService.set.mockResolvedValueOnce(true);
 
       await service.setWithIntelligentTTL('test-key', testData, 'CLUBS');
 
-      expect(redisService.set).toHaveBeenCalledWith(
-        'test-key',
-        JSON.stringify(testData),
-        3600 // 1 hour TTL for clubs
-      );
+      expect(await cacheStore.get('test-key')).toBe(JSON.stringify(testData));
+      expect(await cacheStore.ttl('test-key')).toBe(3600); // 1 hour TTL for clubs
     });
 
     it('should set data with correct TTL for SLOTS', async () => {
       const testData = [{ id: 1, price: 100 }];
-      redisService.set.mockResolvedValueOnce(true);
 
       await service.setWithIntelligentTTL('test-key', testData, 'SLOTS');
 
-      expect(redisService.set).toHaveBeenCalledWith(
-        'test-key',
-        JSON.stringify(testData),
-        300 // 5 minutes TTL for slots
-      );
+      expect(await cacheStore.ttl('test-key')).toBe(300); // 5 minutes TTL for slots
     });
 
     it('should create stale backup when staleKey is provided', async () => {
       const testData = { id: 1, name: 'Test Club' };
-      redisService.set.mockResolvedValue(true);
 
-      await service.setWithIntelligentTTL('test-key', testData, 'CLUBS', 'stale-key');
+      await service.setWithIntelligentTTL(
+        'test-key',
+        testData,
+        'CLUBS',
+        'stale-key',
+      );
+
+      expect(await cacheStore.get('stale-key')).toBe(JSON.stringify(testData));
+      expect(await cacheStore.ttl('stale-key')).toBe(7200);
+    });
+
+    it('should expire fresh data while keeping the stale backup', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await service.setWithIntelligentTTL(
+        'test-key',
+        { id: 1 },
+        'AVAILABILITY',
+        'stale-key',
+      );
+
+      clock.mockReturnValue(now + 181 * 1000);
+      const result = await service.getWithFallback('test-key', 'stale-key');
+      clock.mockRestore();
+
+      expect(result).toEqual({ data: { id: 1 }, isStale: true });
+    });
+  });
+
+  describe('L1 tier', () => {
+    const key = 'availability:place:2022-08-20';
+
+    it('should serve repeated availability reads from L1', async () => {
+      await service.setWithIntelligentTTL(key, [{ id: 1 }], 'AVAILABILITY');
+      const get = jest.spyOn(cacheStore, 'get');
+
+      const result = await service.getWithFallback(key);
+
+      expect(result).toEqual({ data: [{ id: 1 }], isStale: false });
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it('should not keep other data types in L1', async () => {
+      await service.setWithIntelligentTTL('clubs:place', [], 'CLUBS');
+      const get = jest.spyOn(cacheStore, 'get');
+
+      await service.getWithFallback('clubs:place');
+
+      expect(get).toHaveBeenCalledWith('clubs:place');
+    });
+
+    it('should drop L1 entries when patching or invalidating', async () => {
+      await service.setWithIntelligentTTL(key, [1, 2], 'AVAILABILITY');
+
+      await service.patch<number[]>(key, (data) => data.slice(1));
+      expect((await service.getWithFallback(key)).data).toEqual([2]);
+
+      await service.invalidateByPattern('availability:place:*');
+      expect((await service.getWithFallback(key)).data).toBeNull();
+    });
+  });
+
+  describe('patch', () => {
+    it('should only evict patched availability entries from L1', async () => {
+      const evict = jest.spyOn(module.get(L1CacheService), 'evict');
+      await cacheStore.set('slots:1:2:2022-08-20', JSON.stringify([1]), 42);
+      await cacheStore.set(
+        'availability:place:2022-08-20',
+        JSON.stringify([1]),
+        42,
+      );
+
+      await service.patch<number[]>('slots:1:2:2022-08-20', () => []);
+      await service.patch<number[]>('availability:place:2022-08-21', () => []);
+      await service.patch<number[]>(
+        'availability:place:2022-08-20',
+        () => null,
+      );
+      expect(evict).not.toHaveBeenCalled();
+
+      await service.patch<number[]>('availability:place:2022-08-20', () => []);
+      expect(evict).toHaveBeenCalledWith('availability:place:2022-08-20');
+    });
+
+    it('should rewrite the entry keeping its remaining TTL', async () => {
+      await cacheStore.set('test-key', JSON.stringify([1, 2, 3]), 42);
+
+      const patched = await service.patch<number[]>('test-key', (data) =>
+        data.filter((n) => n !== 2),
+      );
+
+      expect(patched).toBe(true);
+      expect(await cacheStore.get('test-key')).toBe(JSON.stringify([1, 3]));
+      expect(await cacheStore.ttl('test-key')).toBe(42);
+    });
+
+    it('should skip missing entries', async () => {
+      const patched = await service.patch('test-key', (data) => data);
+
+      expect(patched).toBe(false);
+      expect(await cacheStore.get('test-key')).toBeNull();
+    });
+
+    it('should not write when the updater reports no changes', async () => {
+      await cacheStore.set('test-key', JSON.stringify([1]), 42);
+      const set = jest.spyOn(cacheStore, 'set');
+
+      const patched = await service.patch('test-key', () => null);
+
+      expect(patched).toBe(false);
+      expect(set).not.toHaveBeenCalled();
+    });
+
+    it('should reject when the store does not accept the write', async () => {
+      await cacheStore.set('test-key', JSON.stringify([1]), 42);
+      jest.spyOn(cacheStore, 'set').mockResolvedValueOnce(false);
+
+      await expect(
+        service.patch<number[]>('test-key', () => []),
+      ).rejects.toBeInstanceOf(CacheWriteError);
+    });
+
+    it('should reject instead of skipping when the store is unavailable', async () => {
+      jest.spyOn(cacheStore, 'isHealthy').mockReturnValue(false);
+
+      await expect(
+        service.patch<number[]>('test-key', () => []),
+      ).rejects.toBeInstanceOf(CacheWriteError);
+    });
+  });
+
+  describe('versions', () => {
+    const key = 'availability:place:2022-08-20';
+
+    it('should change the version when the entry is written or patched', async () => {
+      const initial = await service.getVersion(key);
+      expect(await service.getVersion(key)).toBe(initial);
+
+      await service.setWithIntelligentTTL(key, [1, 2], 'AVAILABILITY');
+      const written = await service.getVersion(key);
+      expect(written).not.toBe(initial);
+
+      await service.patch<number[]>(key, (data) => data.slice(1));
+      expect(await service.getVersion(key)).not.toBe(written);
+    });
+
+    it('should not version stale copies nor other data types', async () => {
+      const version = await service.getVersion(key);
+
+      await service.setWithIntelligentTTL(
+        'availability:stale:place:2022-08-20',
+        [1],
+        'AVAILABILITY',
+      );
+      await service.setWithIntelligentTTL('clubs:place', [1], 'CLUBS');
+
+      expect(await service.getVersion(key)).toBe(version);
+      expect(await cacheStore.get('version:clubs:place')).toBeNull();
+    });
+
+    it('should keep the version when invalidating by pattern', async () => {
+      await service.setWithIntelligentTTL(key, [1], 'AVAILABILITY');
+      const version = await service.getVersion(key);
 
-      expect(redisService.set).toHaveBeenCalledTimes(2);
-      expect(redisService.set).toHaveBeenCalledWith('stale-key', JSON.stringify(testData), 7200);
+      await service.invalidateByPattern('availability:*');
+
+      expect(await service.isFresh(key)).toBe(false);
+      expect(await service.getVersion(key)).toBe(version);
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should remove the given keys and report the count', async () => {
+      await cacheStore.set('test-key', 'value');
+
+      const invalidated = await service.invalidate('test-key', 'stale-key');
+
+      expect(invalidated).toBe(1);
+      expect(await cacheStore.get('test-key')).toBeNull();
+      expect(service.getMetrics().invalidatedKeys).toBe(1);
+    });
+
+    it('should reject when the store is unavailable', async () => {
+      jest.spyOn(cacheStore, 'isHealthy').mockReturnValue(false);
+
+      await expect(service.invalidate('test-key')).rejects.toBeInstanceOf(
+        CacheWriteError,
+      );
+    });
+  });
+
+  describe('invalidateByPattern', () => {
+    it('should remove only the keys matching the pattern', async () => {
+      await cacheStore.mset({
+        'availability:p:2022-08-20': '[]',
+        'availability:p:2022-08-21': '[]',
+        'availability:stale:p:2022-08-20': '[]',
+        'availability:q:2022-08-20': '[]',
+      });
+
+      const invalidated = await service.invalidateByPattern('availability:p:*');
+
+      expect(invalidated).toBe(2);
+      expect(await cacheStore.get('availability:stale:p:2022-08-20')).toBe(
+        '[]',
+      );
+      expect(await cacheStore.get('availability:q:2022-08-20')).toBe('[]');
+      expect(service.getMetrics()).toEqual({
+        invalidatedKeys: 2,
+        patternInvalidations: 1,
+      });
+    });
+
+    it('should return 0 when the store fails', async () => {
+      jest
+        .spyOn(cacheStore, 'deleteByPattern')
+        .mockRejectedValueOnce(new Error('Redis down'));
+
+      const invalidated = await service.invalidateByPattern('availability:*');
+
+      expect(invalidated).toBe(0);
+    });
+  });
+
+  describe('invalidateAll', () => {
+    it('should remove every cache key and keep the rest of the store', async () => {
+      await cacheStore.mset({
+        'availability:p:2022-08-20': '[]',
+        'clubs:stale:p': '[]',
+        'zones:all': '[]',
+        'events:seen:id:1': '1',
+      });
+
+      const invalidated = await service.invalidateAll();
+
+      expect(invalidated).toBe(3);
+      expect(await cacheStore.get('events:seen:id:1')).toBe('1');
+    });
+  });
+
+  describe('inspect', () => {
+    it('should describe the entry and its stale copy', async () => {
+      await service.setWithIntelligentTTL(
+        'clubs:p',
+        [{ id: 1 }],
+        'CLUBS',
+        'clubs:stale:p',
+      );
+
+      expect(await service.inspect('clubs:p')).toEqual({
+        key: 'clubs:p',
+        value: [{ id: 1 }],
+        ttl: 3600,
+        inL1: false,
+        stale: { key: 'clubs:stale:p', value: [{ id: 1 }], ttl: 7200 },
+      });
+    });
+
+    it('should report missing keys', async () => {
+      expect(await service.inspect('availability:stale:p:2022-08-20')).toEqual({
+        key: 'availability:stale:p:2022-08-20',
+        value: null,
+        ttl: -2,
+        inL1: false,
+        stale: null,
+      });
     });
   });
 
@@ -119,14 +470,14 @@ describe('AdvancedCacheService', () => {
     it('should generate consistent cache keys', () => {
       const key1 = service.generateKey('clubs', 'place123');
       const key2 = service.generateKey('clubs', 'place123');
-      
+
       expect(key1).toBe('clubs:place123');
       expect(key1).toBe(key2);
     });
 
     it('should handle multiple parameters', () => {
       const key = service.generateKey('slots', 1, 2, '2024-01-01');
-      
+
       expect(key).toBe('slots:1:2:2024-01-01');
     });
   });
@@ -134,7 +485,7 @@ describe('AdvancedCacheService', () => {
   describe('generateStaleKey', () => {
     it('should generate stale keys with correct prefix', () => {
       const staleKey = service.generateStaleKey('clubs', 'place123');
-      
+
       expect(staleKey).toBe('clubs:stale:place123');
     });
   });
@@ -0,0 +1,119 @@
+import { ConfigService } from '@nestjs/config';
+
+import { AppLogger } from '../app-logger.service';
+import { TracingService } from '../tracing.service';
+
+describe('AppLogger', () => {
+  let lines: Record<string, unknown>[];
+  let write: jest.SpyInstance;
+  let traceId: string | undefined;
+
+  const createLogger = (config: Record<string, unknown> = {}) =>
+    new AppLogger(new ConfigService(config), {
+      getTraceId: () => traceId,
+    } as TracingService);
+
+  beforeEach(() => {
+    lines = [];
+    traceId = undefined;
+    write = jest
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: string | Uint8Array) => {
+        lines.push(JSON.parse(chunk.toString()));
+        return true;
+      });
+  });
+
+  afterEach(() => {
+    write.mockRestore();
+  });
+
+  it('should write the message with its context and fields', () => {
+    const logger = createLogger();
+
+    logger.log(
+      {
+        msg: 'Availability query completed',
+        placeId: 'p1',
+        date: '2022-08-20',
+        outcome: 'miss',
+        durationMs: 12,
+      },
+      'GetAvailabilityHandler',
+    );
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        context: 'GetAvailabilityHandler',
+        msg: 'Availability query completed',
+        placeId: 'p1',
+        date: '2022-08-20',
+        outcome: 'miss',
+        durationMs: 12,
+      }),
+    ]);
+  });
+
+  it('should include the request id of the current trace', () => {
+    const logger = createLogger();
+    traceId = 'req-1';
+
+    logger.warn('Using stale data', 'HTTPAlquilaTuCanchaClient');
+
+    expect(lines[0]).toMatchObject({
+      level: 'warn',
+      requestId: 'req-1',
+      msg: 'Using stale data',
+    });
+  });
+
+  it('should keep the stack of errors', () => {
+    const logger = createLogger();
+
+    logger.error('Fallback failed', new Error('timeout'), 'Handler');
+    logger.error('Operation failed', 'Error: boom\n    at run', 'Handler');
+
+    expect(lines[0].err).toMatchObject({ message: 'timeout' });
+    expect(lines[1].stack).toBe('Error: boom\n    at run');
+  });
+
+  it('should apply per module levels', () => {
+    const logger = createLogger({
+      LOG_LEVEL: 'warn',
+      LOG_LEVELS: 'AdvancedCacheService=debug,CircuitBreaker=error',
+    });
+
+    logger.debug('Cache miss', 'AdvancedCacheService');
+    logger.log('Processed event', 'EventIngestionService');
+    logger.warn('Circuit breaker is OPEN', 'CircuitBreaker:clubs');
+    logger.error('Operation failed', 'CircuitBreaker:clubs');
+
+    expect(lines.map((line) => line.msg)).toEqual([
+      'Cache miss',
+      'Operation failed',
+    ]);
+  });
+
+  it('should redact secrets from fields and messages', () => {
+    const logger = createLogger({ ADMIN_TOKEN: 'super-secret-token' });
+
+    logger.log(
+      {
+        msg: 'Rejected token super-secret-token',
+        headers: { authorization: 'Bearer abc', 'x-webhook-signature': 'x' },
+        token: 'abc',
+      },
+      'AdminAuthGuard',
+    );
+
+    expect(lines[0]).toMatchObject({
+      msg: 'Rejected token [REDACTED]',
+      headers: {
+        authorization: '[REDACTED]',
+        'x-webhook-signature': '[REDACTED]',
+      },
+      token: '[REDACTED]',
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { CACHE_STORE } from '../../../domain/ports/cache-store';
+import { SPAN_EXPORTER } from '../../../domain/ports/span-exporter';
+import { AdvancedCacheService } from '../advanced-cache.service';
+import { AvailabilityPatcherService } from '../availability-patcher.service';
+import { CacheIndexService } from '../cache-index.service';
+import { L1CacheService } from '../l1-cache.service';
+import { PrometheusService } from '../prometheus.service';
+import { TracingService } from '../tracing.service';
+
+describe('AvailabilityPatcherService', () => {
+  let service: AvailabilityPatcherService;
+  let store: Map<string, string>;
+
+  const slot = (start: string) => ({
+    price: 4000,
+    duration: 60,
+    datetime: `2022-08-20 ${start}`,
+    start,
+    end: start,
+    _priority: 0,
+  });
+
+  const availabilityKey = 'availability:ChIJW9fXNZNTtpURV6VYAumGQOw:2022-08-20';
+  const slotsKey = 'slots:166:733:2022-08-20';
+
+  const read = (key: string) => JSON.parse(store.get(key) as string);
+
+  // 2022-08-20 es sábado (day_of_week 6)
+  const club = (openTime: number, open = true) =>
+    ({
+      id: 166,
+      name: 'Loyal Chacabuco',
+      logo_url: 'logo.png',
+      zone: { placeid: 'ChIJW9fXNZNTtpURV6VYAumGQOw' },
+      openhours: [
+        { day_of_week: 6, open_time: openTime, close_time: 24, open },
+      ],
+    } as any);
+
+  beforeEach(async () => {
+    store = new Map();
+
+    const mockCacheStore = {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        store.set(key, value);
+        return true;
+      }),
+      setIfAbsent: jest.fn(async (key: string, value: string) => {
+        if (store.has(key)) {
+          return false;
+        }
+        store.set(key, value);
+        return true;
+      }),
+      incr: jest.fn(async (key: string) => {
+        const value = Number(store.get(key) ?? 0) + 1;
+        store.set(key, String(value));
+        return value;
+      }),
+      ttl: jest.fn(async (key: string) => (store.has(key) ? 120 : -2)),
+      del: jest.fn(async (key: string) => store.delete(key)),
+      publish: jest.fn(),
+      isHealthy: jest.fn().mockReturnValue(true),
+      unlink: jest.fn(
+        async (keys: string[]) =>
+          keys.filter((key) => store.delete(key)).length,
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AvailabilityPatcherService,
+        AdvancedCacheService,
+        L1CacheService,
+        PrometheusService,
+        TracingService,
+        {
+          provide: SPAN_EXPORTER,
+          useValue: {
+            export: jest.fn().mockResolvedValue(undefined),
+            close: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService(),
+        },
+        {
+          provide: CACHE_STORE,
+          useValue: mockCacheStore,
+        },
+        {
+          provide: CacheIndexService,
+          useValue: {
+            getPlaceIds: jest
+              .fn()
+              .mockResolvedValue(['ChIJW9fXNZNTtpURV6VYAumGQOw']),
+            getCachedDates: jest.fn().mockResolvedValue(['2022-08-20']),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AvailabilityPatcherService>(
+      AvailabilityPatcherService,
+    );
+
+    store.set(slotsKey, JSON.stringify([slot('09:00'), slot('10:00')]));
+    store.set(
+      availabilityKey,
+      JSON.stringify([
+        {
+          id: 166,
+          courts: [
+            { id: 733, available: [slot('09:00'), slot('10:00')] },
+            { id: 734, available: [slot('09:00')] },
+          ],
+        },
+      ]),
+    );
+  });
+
+  describe('removeSlot', () => {
+    it('should remove the booked slot from slots and availability', async () => {
+      const patched = await service.removeSlot(166, 733, slot('09:00'));
+
+      expect(patched).toBe(2);
+      expect(read(slotsKey)).toEqual([slot('10:00')]);
+      const [club] = read(availabilityKey);
+      expect(club.courts[0].available).toEqual([slot('10:00')]);
+      expect(club.courts[1].available).toEqual([slot('09:00')]);
+    });
+
+    it('should not touch entries that do not contain the slot', async () => {
+      const patched = await service.removeSlot(166, 733, slot('15:00'));
+
+      expect(patched).toBe(0);
+    });
+  });
+
+  describe('restoreSlot', () => {
+    it('should re-insert the cancelled slot in chronological order', async () => {
+      await service.removeSlot(166, 733, slot('09:00'));
+      const patched = await service.restoreSlot(166, 733, slot('09:00'));
+
+      expect(patched).toBe(2);
+      expect(read(slotsKey)).toEqual([slot('09:00'), slot('10:00')]);
+      const [club] = read(availabilityKey);
+      expect(club.courts[0].available).toEqual([slot('09:00'), slot('10:00')]);
+    });
+
+    it('should not duplicate a slot that is already available', async () => {
+      const patched = await service.restoreSlot(166, 733, slot('10:00'));
+
+      expect(patched).toBe(0);
+      expect(read(slotsKey)).toHaveLength(2);
+    });
+  });
+
+  describe('club updates', () => {
+    const clubsKey = 'clubs:ChIJW9fXNZNTtpURV6VYAumGQOw';
+
+    beforeEach(() => {
+      store.set(clubsKey, JSON.stringify([club(9)]));
+      store.set('courts:166', JSON.stringify([{ id: 733 }, { id: 734 }]));
+    });
+
+    it('should return the cached open hours of a club', async () => {
+      const openhours = await service.getCachedOpenHours(club(10));
+
+      expect(openhours).toEqual(club(9).openhours);
+    });
+
+    it('should refresh static club data keeping availability', async () => {
+      const patched = await service.refreshClub({
+        ...club(9),
+        logo_url: 'new-logo.png',
+      });
+
+      expect(patched).toBe(2);
+      expect(read(clubsKey)[0].logo_url).toBe('new-logo.png');
+      const [cached] = read(availabilityKey);
+      expect(cached.logo_url).toBe('new-logo.png');
+      expect(cached.courts[0].available).toHaveLength(2);
+    });
+
+    it('should drop slots outside narrowed open hours', async () => {
+      const result = await service.applyOpenHours(club(10), club(9).openhours);
+
+      expect(result).toEqual({ patched: 2, invalidated: 0 });
+      expect(read(slotsKey)).toEqual([slot('10:00')]);
+      const [cached] = read(availabilityKey);
+      expect(cached.courts[0].available).toEqual([slot('10:00')]);
+      expect(cached.courts[1].available).toEqual([]);
+    });
+
+    it('should drop every slot when the club closes that day', async () => {
+      await service.applyOpenHours(club(9, false), club(9).openhours);
+
+      expect(read(slotsKey)).toEqual([]);
+    });
+
+    it('should invalidate entries when open hours are extended', async () => {
+      const result = await service.applyOpenHours(club(8), club(9).openhours);
+
+      expect(result).toEqual({ patched: 0, invalidated: 2 });
+      expect(store.has(slotsKey)).toBe(false);
+      expect(store.has(availabilityKey)).toBe(false);
+    });
+
+    it('should invalidate entries when previous open hours are unknown', async () => {
+      const result = await service.applyOpenHours(club(9), null);
+
+      expect(result.invalidated).toBe(2);
+    });
+
+    describe('when the club zone differs from the searched place', () => {
+      // Una búsqueda en una zona puede devolver clubs de otra zona
+      const elsewhere = (openTime: number) => ({
+        ...club(openTime),
+        zone: { placeid: 'ChIJ4YgIxK2ptZURSoACjR5299w' },
+      });
+
+      it('should read the previous open hours from the indexed places', async () => {
+        const openhours = await service.getCachedOpenHours(elsewhere(10));
+
+        expect(openhours).toEqual(club(9).openhours);
+      });
+
+      it('should refresh the club in the indexed places', async () => {
+        const patched = await service.refreshClub({
+          ...elsewhere(9),
+          logo_url: 'new-logo.png',
+        });
+
+        expect(patched).toBe(2);
+        expect(read(clubsKey)[0].logo_url).toBe('new-logo.png');
+        expect(read(availabilityKey)[0].logo_url).toBe('new-logo.png');
+      });
+
+      it('should apply the open hours to the indexed places', async () => {
+        const result = await service.applyOpenHours(
+          elsewhere(10),
+          club(9).openhours,
+        );
+
+        expect(result).toEqual({ patched: 2, invalidated: 0 });
+        const [cached] = read(availabilityKey);
+        expect(cached.courts[0].available).toEqual([slot('10:00')]);
+      });
+    });
+  });
+
+  describe('invalidateClubAvailability', () => {
+    it('should invalidate indexed slots and availability of the club', async () => {
+      store.set('courts:166', JSON.stringify([{ id: 733 }]));
+
+      const invalidated = await service.invalidateClubAvailability(166);
+
+      expect(invalidated).toBe(2);
+      expect(store.has(slotsKey)).toBe(false);
+      expect(store.has(availabilityKey)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { ConfigService } from '@nestjs/config';
+
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import {
+  AvailabilityChange,
+  AvailabilityStreamService,
+} from '../availability-stream.service';
+import { CacheIndexService } from '../cache-index.service';
+
+describe('AvailabilityStreamService', () => {
+  let stream: AvailabilityStreamService;
+  let cacheStore: InMemoryCacheService;
+  let cacheIndex: { getPlaceIds: jest.Mock };
+
+  const slot = {
+    price: 1500,
+    duration: 60,
+    datetime: '2022-08-20 10:00',
+    start: '10:00',
+    end: '11:00',
+    _priority: 1,
+  };
+
+  const collect = (placeId: string, date: string) => {
+    const changes: AvailabilityChange[] = [];
+    const subscription = stream
+      .watch(placeId, date)
+      .subscribe((change) => changes.push(change));
+    return { changes, subscription };
+  };
+
+  beforeEach(async () => {
+    cacheStore = new InMemoryCacheService(new ConfigService());
+    cacheIndex = { getPlaceIds: jest.fn().mockResolvedValue(['rosario']) };
+    stream = new AvailabilityStreamService(
+      cacheStore,
+      cacheIndex as unknown as CacheIndexService,
+    );
+    await stream.onModuleInit();
+  });
+
+  it('should deliver slot changes for the watched zone and date', async () => {
+    const rosario = collect('rosario', '2022-08-20');
+    const otherDate = collect('rosario', '2022-08-21');
+    const otherZone = collect('cordoba', '2022-08-20');
+
+    await stream.publish({ type: 'slot_removed', clubId: 1, courtId: 2, slot });
+
+    expect(rosario.changes).toEqual([
+      { type: 'slot_removed', clubId: 1, courtId: 2, slot },
+    ]);
+    expect(otherDate.changes).toEqual([]);
+    expect(otherZone.changes).toEqual([]);
+  });
+
+  it('should deliver club and court updates for every date', async () => {
+    const { changes } = collect('rosario', '2022-08-21');
+
+    await stream.publish({
+      type: 'court_updated',
+      clubId: 1,
+      courtId: 2,
+      fields: ['name'],
+    });
+
+    expect(changes).toHaveLength(1);
+  });
+
+  it('should deliver changes published by other instances', async () => {
+    const other = new AvailabilityStreamService(
+      cacheStore,
+      cacheIndex as unknown as CacheIndexService,
+    );
+    const { changes } = collect('rosario', '2022-08-20');
+
+    await other.publish({ type: 'slot_added', clubId: 1, courtId: 2, slot });
+
+    expect(changes).toHaveLength(1);
+  });
+
+  it('should track subscribers until they disconnect', () => {
+    const { subscription } = collect('rosario', '2022-08-20');
+    expect(stream.getMetrics().subscribers).toBe(1);
+
+    subscription.unsubscribe();
+
+    expect(stream.getMetrics().subscribers).toBe(0);
+  });
+
+  it('should complete the streams on shutdown', () => {
+    const complete = jest.fn();
+    stream.watch('rosario', '2022-08-20').subscribe({ complete });
+
+    stream.onModuleDestroy();
+
+    expect(complete).toHaveBeenCalled();
+    expect(stream.getMetrics().subscribers).toBe(0);
+
+    const closed = jest.fn();
+    stream.closed().subscribe(closed);
+    expect(closed).toHaveBeenCalledTimes(1);
+  });
+});
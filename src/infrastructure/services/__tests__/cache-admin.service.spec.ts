@@ -0,0 +1,124 @@
+import { ConfigService } from '@nestjs/config';
+
+import { ConsoleSpanExporter } from '../../clients/console-span-exporter';
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import { AdvancedCacheService } from '../advanced-cache.service';
+import { AvailabilityPatcherService } from '../availability-patcher.service';
+import { CacheAdminService } from '../cache-admin.service';
+import { CacheIndexService } from '../cache-index.service';
+import { L1CacheService } from '../l1-cache.service';
+import { PrometheusService } from '../prometheus.service';
+import { TracingService } from '../tracing.service';
+
+describe('CacheAdminService', () => {
+  const placeId = 'ChIJW9fXNZNTtpURV6VYAumGQOw';
+  const date = new Date('2022-08-20T00:00:00.000Z');
+
+  let service: CacheAdminService;
+  let cacheStore: InMemoryCacheService;
+  let handler: {
+    invalidateCacheForPlace: jest.Mock;
+    refreshAvailability: jest.Mock;
+  };
+
+  const cached = async (...keys: string[]) =>
+    (await cacheStore.mget(keys)).map((value) => value !== null);
+
+  beforeEach(async () => {
+    const config = new ConfigService();
+    cacheStore = new InMemoryCacheService(config);
+    const advancedCache = new AdvancedCacheService(
+      cacheStore,
+      new L1CacheService(cacheStore, config),
+      new PrometheusService(),
+      new TracingService(new ConsoleSpanExporter(), config),
+    );
+    const cacheIndex = new CacheIndexService(cacheStore);
+    handler = {
+      invalidateCacheForPlace: jest.fn(async (place: string) =>
+        advancedCache.invalidateByPattern(`availability:${place}:*`),
+      ),
+      refreshAvailability: jest.fn(async (place: string) => {
+        await cacheStore.set(`availability:${place}:2022-08-20`, '[]', 180);
+      }),
+    };
+
+    await cacheStore.mset({
+      'club:166': '{}',
+      'courts:166': '[{"id":733},{"id":734}]',
+      'court:166:733': '{}',
+      'court:166:734': '{}',
+      'slots:166:733:2022-08-20': '[]',
+      'slots:166:734:2022-08-20': '[]',
+      [`clubs:${placeId}`]: '[]',
+      [`availability:${placeId}:2022-08-20`]: '[]',
+      [`availability:${placeId}:2022-08-21`]: '[]',
+    });
+    await cacheIndex.registerClubs(placeId, [166]);
+    await cacheIndex.registerSlots(166, 733, '2022-08-20');
+    await cacheIndex.registerSlots(166, 734, '2022-08-20');
+
+    service = new CacheAdminService(
+      advancedCache,
+      new AvailabilityPatcherService(advancedCache, cacheIndex),
+      handler as any,
+      { runWithPriority: (_: string, fn: () => unknown) => fn() } as any,
+    );
+  });
+
+  it('should invalidate a court and the availability of its club', async () => {
+    await service.invalidate({ clubId: 166, courtId: 733 });
+
+    expect(
+      await cached(
+        'court:166:733',
+        'courts:166',
+        'slots:166:733:2022-08-20',
+        `availability:${placeId}:2022-08-20`,
+      ),
+    ).toEqual([false, false, false, false]);
+    expect(await cached('club:166', 'court:166:734')).toEqual([true, true]);
+  });
+
+  it('should invalidate a club', async () => {
+    await service.invalidate({ clubId: 166 });
+
+    expect(
+      await cached('club:166', 'courts:166', 'slots:166:734:2022-08-20'),
+    ).toEqual([false, false, false]);
+    expect(await cached('court:166:733')).toEqual([true]);
+  });
+
+  it('should invalidate a place for a single date', async () => {
+    handler.invalidateCacheForPlace.mockResolvedValueOnce(1);
+
+    expect(await service.invalidate({ placeId, date })).toBe(1);
+    expect(handler.invalidateCacheForPlace).toHaveBeenCalledWith(placeId, date);
+    expect(await cached(`clubs:${placeId}`)).toEqual([true]);
+  });
+
+  it('should invalidate a place with its clubs', async () => {
+    await service.invalidate({ placeId });
+
+    expect(
+      await cached(
+        `clubs:${placeId}`,
+        `availability:${placeId}:2022-08-20`,
+        `availability:${placeId}:2022-08-21`,
+      ),
+    ).toEqual([false, false, false]);
+  });
+
+  it('should refresh availability and return the new entry', async () => {
+    await cacheStore.unlink([`availability:${placeId}:2022-08-20`]);
+
+    const entry = await service.refresh(placeId, date);
+
+    expect(handler.refreshAvailability).toHaveBeenCalledWith(placeId, date);
+    expect(entry).toMatchObject({
+      key: `availability:${placeId}:2022-08-20`,
+      value: [],
+      ttl: 180,
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { CACHE_STORE, CacheStore } from '../../../domain/ports/cache-store';
+import { CacheIndexService } from '../cache-index.service';
+
+describe('CacheIndexService', () => {
+  let service: CacheIndexService;
+  let cacheStore: jest.Mocked<CacheStore>;
+  let sets: Map<string, Set<string>>;
+
+  beforeEach(async () => {
+    sets = new Map();
+
+    const mockCacheStore = {
+      sadd: jest.fn(async (key: string, members: string[]) => {
+        const set = sets.get(key) ?? new Set<string>();
+        members.forEach((member) => set.add(member));
+        sets.set(key, set);
+        return true;
+      }),
+      smembers: jest.fn(async (key: string) => [...(sets.get(key) ?? [])]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheIndexService,
+        {
+          provide: CACHE_STORE,
+          useValue: mockCacheStore,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CacheIndexService>(CacheIndexService);
+    cacheStore = module.get(CACHE_STORE);
+  });
+
+  it('should index the places of each cached club', async () => {
+    await service.registerClubs('place-a', [1, 2]);
+    await service.registerClubs('place-b', [2]);
+
+    expect(await service.getPlaceIds(1)).toEqual(['place-a']);
+    expect(await service.getPlaceIds(2)).toEqual(['place-a', 'place-b']);
+    expect(await service.getPlaceIds(3)).toEqual([]);
+  });
+
+  it('should index cached dates per club and per court', async () => {
+    await service.registerSlots(1, 10, '2022-08-26');
+    await service.registerSlots(1, 10, '2022-08-25');
+    await service.registerSlots(1, 11, '2022-08-27');
+
+    expect(await service.getCachedDates(1)).toEqual([
+      '2022-08-25',
+      '2022-08-26',
+      '2022-08-27',
+    ]);
+    expect(await service.getCachedDates(1, 10)).toEqual([
+      '2022-08-25',
+      '2022-08-26',
+    ]);
+  });
+
+  it('should renew the index expiration on every registration', async () => {
+    await service.registerClubs('place-a', [1]);
+
+    expect(cacheStore.sadd).toHaveBeenCalledWith(
+      'index:club-places:1',
+      ['place-a'],
+      7200,
+    );
+  });
+});
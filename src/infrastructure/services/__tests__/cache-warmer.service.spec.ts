@@ -0,0 +1,122 @@
+import { ConfigService } from '@nestjs/config';
+import { QueryBus } from '@nestjs/cqrs';
+import * as moment from 'moment';
+
+import { GetAvailabilityHandler } from '../../../domain/handlers/get-availability.handler';
+import { AdvancedCacheService } from '../advanced-cache.service';
+import { CacheWarmerService } from '../cache-warmer.service';
+import { QueryStatsService } from '../query-stats.service';
+import { RateLimiterService } from '../rate-limiter.service';
+import {
+  RequestDroppedError,
+  UpstreamSchedulerService,
+} from '../upstream-scheduler.service';
+
+describe('CacheWarmerService', () => {
+  let warmer: CacheWarmerService;
+  let handler: { refreshAvailability: jest.Mock };
+  let advancedCache: { getWithAge: jest.Mock; generateKey: jest.Mock };
+  let queryStats: QueryStatsService;
+  let dispatched: number;
+
+  const config = new ConfigService({
+    CACHE_WARMUP_DAYS: 2,
+    // 0.25 * 40 requests/min * 5 min = 50 requests por pasada
+    CACHE_WARMUP_BUDGET_RATIO: 0.25,
+    CACHE_WARMUP_INTERVAL_MS: 300000,
+  });
+  const day = (offset: number) =>
+    moment().startOf('day').add(offset, 'days').toDate();
+  const dateKey = (offset: number) => day(offset).toISOString().split('T')[0];
+
+  beforeEach(() => {
+    dispatched = 0;
+    handler = {
+      refreshAvailability: jest.fn().mockImplementation(async () => {
+        dispatched += 10;
+      }),
+    };
+    advancedCache = {
+      getWithAge: jest
+        .fn()
+        .mockResolvedValue({ data: null, isStale: false, age: 0 }),
+      generateKey: jest.fn((...parts: string[]) => parts.join(':')),
+    };
+    queryStats = new QueryStatsService(config);
+    const queryBus = {
+      execute: jest
+        .fn()
+        .mockResolvedValue([{ placeid: 'rosario' }, { placeid: 'cordoba' }]),
+    };
+    const scheduler = {
+      runWithPriority: (_: string, fn: () => unknown) => fn(),
+      getMetrics: () => ({ warmup: { dispatched } }),
+    };
+    const rateLimiter = { getRefillPerMinute: () => 40 };
+
+    warmer = new CacheWarmerService(
+      queryBus as unknown as QueryBus,
+      handler as unknown as GetAvailabilityHandler,
+      advancedCache as unknown as AdvancedCacheService,
+      queryStats,
+      rateLimiter as unknown as RateLimiterService,
+      scheduler as unknown as UpstreamSchedulerService,
+      config,
+    );
+  });
+
+  it('should warm the most queried zones and dates first', async () => {
+    queryStats.record('cordoba', dateKey(1));
+
+    await warmer.warmup();
+
+    const warmed = handler.refreshAvailability.mock.calls.map(
+      ([placeId, date]) => [placeId, date.toISOString().split('T')[0]],
+    );
+    expect(warmed).toEqual([
+      ['cordoba', dateKey(1)],
+      ['cordoba', dateKey(0)],
+      ['rosario', dateKey(0)],
+      ['rosario', dateKey(1)],
+    ]);
+  });
+
+  it('should skip availability that is already fresh', async () => {
+    advancedCache.getWithAge.mockImplementation(async (key: string) =>
+      key.startsWith('availability:rosario')
+        ? { data: [], isStale: false, age: 10 }
+        : { data: null, isStale: false, age: 0 },
+    );
+
+    await warmer.warmup();
+
+    expect(handler.refreshAvailability).toHaveBeenCalledTimes(2);
+    expect(warmer.getMetrics().skippedFresh).toBe(2);
+  });
+
+  it('should stop once its share of the rate budget is spent', async () => {
+    handler.refreshAvailability.mockImplementation(async () => {
+      dispatched += 30;
+    });
+
+    const warmed = await warmer.warmup();
+
+    expect(warmed).toBe(2);
+    expect(warmer.getMetrics()).toMatchObject({
+      budgetPerRun: 50,
+      budgetExhausted: 1,
+      lastRunRequests: 60,
+    });
+  });
+
+  it('should stop when the scheduler drops warmup requests', async () => {
+    handler.refreshAvailability.mockRejectedValue(
+      new RequestDroppedError('clubs:rosario', 'warmup'),
+    );
+
+    await warmer.warmup();
+
+    expect(handler.refreshAvailability).toHaveBeenCalledTimes(1);
+    expect(warmer.getMetrics().failed).toBe(1);
+  });
+});
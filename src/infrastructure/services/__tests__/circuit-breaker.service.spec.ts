@@ -1,12 +1,33 @@
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
+
+import { SPAN_EXPORTER } from '../../../domain/ports/span-exporter';
 import { CircuitBreakerService } from '../circuit-breaker.service';
+import { TracingService } from '../tracing.service';
 
 describe('CircuitBreakerService', () => {
   let service: CircuitBreakerService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CircuitBreakerService],
+      providers: [
+        CircuitBreakerService,
+        TracingService,
+        {
+          provide: SPAN_EXPORTER,
+          useValue: {
+            export: jest.fn().mockResolvedValue(undefined),
+            close: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            CIRCUIT_BREAKER_SLOTS_FAILURE_THRESHOLD: 2,
+            CIRCUIT_BREAKER_COURTS_MINIMUM_REQUESTS: 4,
+          }),
+        },
+      ],
     }).compile();
 
     service = module.get<CircuitBreakerService>(CircuitBreakerService);
@@ -68,6 +89,22 @@ describe('CircuitBreakerService', () => {
       expect(result).toBe('fallback result');
       expect(mockOperation).not.toHaveBeenCalledTimes(6); // Should not call operation when open
     });
+
+    it('should not open circuit for errors excluded by isFailure', async () => {
+      const mockOperation = jest
+        .fn()
+        .mockRejectedValue(new Error('Too Many Requests'));
+      const mockFallback = jest.fn().mockResolvedValue('fallback result');
+      const isFailure = jest.fn().mockReturnValue(false);
+
+      for (let i = 0; i < 5; i++) {
+        await service.execute(mockOperation, mockFallback, isFailure);
+      }
+
+      expect(service.getState()).toBe('CLOSED');
+      expect(mockFallback).toHaveBeenCalledTimes(5);
+      expect(service.getMetrics().failureCount).toBe(0);
+    });
   });
 
   describe('getMetrics', () => {
@@ -81,4 +118,92 @@ describe('CircuitBreakerService', () => {
       expect(metrics.state).toBe('CLOSED');
     });
   });
+
+  describe('named breakers', () => {
+    const failing = () =>
+      jest.fn().mockRejectedValue(new Error('Operation failed'));
+    const succeeding = () => jest.fn().mockResolvedValue('success');
+    const fallback = () => jest.fn().mockResolvedValue('fallback result');
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep other operations closed when one breaker opens', async () => {
+      for (let i = 0; i < 2; i++) {
+        await service.get('slots').execute(failing(), fallback());
+      }
+
+      expect(service.get('slots').getState()).toBe('OPEN');
+      expect(await service.get('clubs').execute(succeeding())).toBe('success');
+      expect(service.getStates()).toEqual({ slots: 'OPEN', clubs: 'CLOSED' });
+    });
+
+    it('should apply the general policy to operations without their own', () => {
+      expect(service.get('clubs').policy.failureThreshold).toBe(5);
+      expect(service.get('slots').policy.failureThreshold).toBe(2);
+    });
+
+    it('should open on the failure rate of the rolling window', async () => {
+      const courts = service.get('courts');
+
+      await courts.execute(succeeding());
+      await courts.execute(failing(), fallback());
+      await courts.execute(succeeding());
+      await courts.execute(failing(), fallback());
+
+      expect(courts.getState()).toBe('OPEN');
+      expect(courts.getMetrics().window).toEqual({
+        requests: 4,
+        failures: 2,
+        failureRate: 0.5,
+      });
+    });
+
+    it('should forget failures that fall out of the window', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const courts = service.get('courts');
+      await courts.execute(failing(), fallback());
+      await courts.execute(failing(), fallback());
+
+      clock.mockReturnValue(now + 60000);
+      await courts.execute(succeeding());
+      await courts.execute(succeeding());
+
+      expect(courts.getState()).toBe('CLOSED');
+      expect(courts.getMetrics().window.requests).toBe(2);
+    });
+
+    it('should close only after enough successes while HALF_OPEN', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const slots = service.get('slots');
+      for (let i = 0; i < 2; i++) {
+        await slots.execute(failing(), fallback());
+      }
+
+      clock.mockReturnValue(now + 60000);
+      await slots.execute(succeeding());
+      await slots.execute(succeeding());
+      expect(slots.getState()).toBe('HALF_OPEN');
+
+      await slots.execute(succeeding());
+      expect(slots.getState()).toBe('CLOSED');
+    });
+
+    it('should reopen when a HALF_OPEN attempt fails', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const slots = service.get('slots');
+      for (let i = 0; i < 2; i++) {
+        await slots.execute(failing(), fallback());
+      }
+
+      clock.mockReturnValue(now + 60000);
+      await slots.execute(failing(), fallback());
+
+      expect(slots.getState()).toBe('OPEN');
+    });
+  });
 });
@@ -0,0 +1,337 @@
+import { ConfigService } from '@nestjs/config';
+import { EventBus } from '@nestjs/cqrs';
+
+import {
+  ClubUpdatedEvent,
+  SlotAvailableEvent,
+  SlotBookedEvent,
+} from '../../../domain/events';
+import { GetAvailabilityHandler } from '../../../domain/handlers/get-availability.handler';
+import { AlquilaTuCanchaClient } from '../../../domain/ports/aquila-tu-cancha.client';
+import {
+  DeadLetter,
+  EventLog,
+  EventLogEntry,
+} from '../../../domain/ports/event-log';
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import { AdvancedCacheService } from '../advanced-cache.service';
+import { AvailabilityPatcherService } from '../availability-patcher.service';
+import { CacheIndexService } from '../cache-index.service';
+import { EventIngestionService } from '../event-ingestion.service';
+import { ExternalEventDTO } from '../external-event.schema';
+import { PrometheusService } from '../prometheus.service';
+
+class FakeEventLog implements EventLog {
+  entries: EventLogEntry[] = [];
+  stored: EventLogEntry[] = [];
+  acked: string[] = [];
+  deadLetters: DeadLetter[] = [];
+  private sequence = 0;
+
+  async append(payload: string): Promise<string> {
+    const id = String(++this.sequence);
+    this.entries.push({ id, payload });
+    this.stored.push({ id, payload });
+    return id;
+  }
+
+  async read(count: number): Promise<EventLogEntry[]> {
+    return this.entries.splice(0, count);
+  }
+
+  async ack(id: string): Promise<void> {
+    this.acked.push(id);
+  }
+
+  async deadLetter(letter: DeadLetter): Promise<void> {
+    this.deadLetters.push(letter);
+  }
+
+  async history(): Promise<EventLogEntry[]> {
+    return [...this.stored];
+  }
+
+  getMetrics() {
+    return {};
+  }
+
+  async close(): Promise<void> {
+    return;
+  }
+}
+
+describe('EventIngestionService', () => {
+  let service: EventIngestionService;
+  let eventLog: FakeEventLog;
+  let eventBus: { publish: jest.Mock };
+  let availabilityPatcher: {
+    removeSlot: jest.Mock;
+    restoreSlot: jest.Mock;
+    getCachedOpenHours: jest.Mock;
+    refreshClub: jest.Mock;
+    applyOpenHours: jest.Mock;
+    invalidateClubAvailability: jest.Mock;
+  };
+  let client: { getClub: jest.Mock };
+
+  const slot = {
+    price: 1500,
+    duration: 60,
+    datetime: '2022-08-20 10:00',
+    start: '10:00',
+    end: '11:00',
+    _priority: 1,
+  };
+  const booking: ExternalEventDTO = {
+    type: 'booking_created',
+    clubId: 1,
+    courtId: 2,
+    slot,
+  };
+  const cancellation: ExternalEventDTO = {
+    ...booking,
+    type: 'booking_cancelled',
+  };
+  const club = { id: 1, openhours: [] };
+  const clubUpdate = (
+    fields: ClubUpdatedEvent['fields'],
+  ): ExternalEventDTO => ({ type: 'club_updated', clubId: 1, fields });
+
+  beforeEach(() => {
+    eventLog = new FakeEventLog();
+    eventBus = { publish: jest.fn() };
+    availabilityPatcher = {
+      removeSlot: jest.fn().mockResolvedValue(undefined),
+      restoreSlot: jest.fn().mockResolvedValue(undefined),
+      getCachedOpenHours: jest.fn().mockResolvedValue([]),
+      refreshClub: jest.fn().mockResolvedValue(1),
+      applyOpenHours: jest.fn().mockResolvedValue({
+        patched: 2,
+        invalidated: 3,
+      }),
+      invalidateClubAvailability: jest.fn().mockResolvedValue(4),
+    };
+    client = { getClub: jest.fn().mockResolvedValue(club) };
+
+    service = new EventIngestionService(
+      eventLog,
+      new InMemoryCacheService(new ConfigService()),
+      eventBus as unknown as EventBus,
+      {} as AdvancedCacheService,
+      availabilityPatcher as unknown as AvailabilityPatcherService,
+      {} as CacheIndexService,
+      {} as GetAvailabilityHandler,
+      client as unknown as AlquilaTuCanchaClient,
+      new ConfigService({
+        EVENT_MAX_ATTEMPTS: 3,
+        EVENT_RETRY_BASE_DELAY_MS: 0,
+      }),
+      new PrometheusService(),
+    );
+  });
+
+  it('should persist events and skip duplicates', async () => {
+    const first = await service.ingest(booking);
+    const second = await service.ingest({ ...booking, slot: { ...slot } });
+
+    expect(first).toEqual({ id: '1', duplicate: false });
+    expect(second).toEqual({ id: null, duplicate: true });
+    expect(eventLog.entries).toHaveLength(1);
+  });
+
+  it('should deduplicate by event id when present', async () => {
+    await service.ingest({ ...booking, id: 'evt-1' });
+    await service.ingest({ ...cancellation, id: 'evt-1' });
+    await service.ingest({ ...booking, id: 'evt-2' });
+
+    expect(eventLog.entries.map((entry) => entry.id)).toEqual(['1', '2']);
+  });
+
+  it('should accept a booking again once it was cancelled', async () => {
+    await service.ingest(booking);
+    await service.ingest(cancellation);
+    const rebooking = await service.ingest(booking);
+
+    expect(rebooking.duplicate).toBe(false);
+    expect(eventLog.entries).toHaveLength(3);
+  });
+
+  it('should reject and forget events the log could not persist', async () => {
+    jest
+      .spyOn(eventLog, 'append')
+      .mockRejectedValueOnce(new Error('Redis down'));
+
+    await expect(service.ingest(booking)).rejects.toThrow('Redis down');
+    expect(await service.ingest(booking)).toEqual({
+      id: '1',
+      duplicate: false,
+    });
+  });
+
+  it('should process events of the same club in arrival order', async () => {
+    const handled: string[] = [];
+    availabilityPatcher.removeSlot.mockImplementation(async () => {
+      await new Promise<void>((resolve) => setImmediate(() => resolve()));
+      handled.push('booking');
+    });
+    availabilityPatcher.restoreSlot.mockImplementation(async () => {
+      handled.push('cancellation');
+    });
+
+    await service.ingest(booking);
+    await service.ingest(cancellation);
+    expect(await service.processNext(0)).toBe(2);
+
+    expect(handled).toEqual(['booking', 'cancellation']);
+    expect(eventLog.acked).toEqual(['1', '2']);
+    expect(eventBus.publish.mock.calls.map(([event]) => event)).toEqual([
+      expect.any(SlotBookedEvent),
+      expect.any(SlotAvailableEvent),
+    ]);
+  });
+
+  it('should retry failed events and ack them once they succeed', async () => {
+    availabilityPatcher.removeSlot
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce(undefined);
+
+    await service.ingest(booking);
+    await service.processNext(0);
+
+    expect(availabilityPatcher.removeSlot).toHaveBeenCalledTimes(2);
+    expect(eventLog.acked).toEqual(['1']);
+    expect(eventBus.publish).toHaveBeenCalledTimes(1);
+    expect(service.getMetrics()).toMatchObject({ processed: 1, retries: 1 });
+  });
+
+  it('should dead-letter events that keep failing', async () => {
+    availabilityPatcher.removeSlot.mockRejectedValue(new Error('timeout'));
+
+    await service.ingest(booking);
+    await service.processNext(0);
+
+    expect(availabilityPatcher.removeSlot).toHaveBeenCalledTimes(3);
+    expect(eventLog.acked).toEqual([]);
+    expect(eventLog.deadLetters).toEqual([
+      expect.objectContaining({ id: '1', reason: 'timeout', attempts: 3 }),
+    ]);
+    expect(eventBus.publish).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter malformed payloads without retrying', async () => {
+    await eventLog.append('{"type":"unknown"}');
+
+    await service.processNext(0);
+
+    expect(eventLog.deadLetters).toEqual([
+      expect.objectContaining({ id: '1', attempts: 0 }),
+    ]);
+  });
+
+  it('should replay stored events in order without deduplicating', async () => {
+    await service.ingest(booking);
+    await service.ingest(cancellation);
+    await service.processNext(0);
+    availabilityPatcher.restoreSlot.mockRejectedValue(new Error('timeout'));
+
+    const result = await service.replay(new Date(0));
+
+    expect(result).toEqual({
+      replayed: 1,
+      failed: [{ id: '2', reason: 'timeout' }],
+    });
+    expect(availabilityPatcher.removeSlot).toHaveBeenCalledTimes(2);
+    expect(eventLog.deadLetters).toEqual([]);
+  });
+
+  describe('club updates', () => {
+    const apply = async (event: ExternalEventDTO) => {
+      await service.ingest(event);
+      await service.processNext(0);
+    };
+
+    it('should only refresh static data for non availability fields', async () => {
+      await apply(clubUpdate(['logo_url', 'background_url', 'attributes']));
+
+      expect(availabilityPatcher.refreshClub).toHaveBeenCalledWith(club);
+      expect(availabilityPatcher.applyOpenHours).not.toHaveBeenCalled();
+      expect(eventLog.acked).toEqual(['1']);
+      expect(eventBus.publish).toHaveBeenCalledWith(
+        expect.any(ClubUpdatedEvent),
+      );
+    });
+
+    it('should recompute availability before acking when open hours change', async () => {
+      await apply(clubUpdate(['openhours']));
+
+      expect(availabilityPatcher.getCachedOpenHours).toHaveBeenCalledWith(club);
+      expect(availabilityPatcher.refreshClub).toHaveBeenCalledWith(club);
+      expect(availabilityPatcher.applyOpenHours).toHaveBeenCalledWith(club, []);
+      expect(eventLog.acked).toEqual(['1']);
+      expect(service.getMetrics().invalidatedKeys).toBe(3);
+    });
+
+    it('should ignore updates without fields', async () => {
+      await apply(clubUpdate([]));
+
+      expect(client.getClub).not.toHaveBeenCalled();
+      expect(eventLog.acked).toEqual(['1']);
+    });
+
+    it('should invalidate availability when the club cannot be fetched', async () => {
+      client.getClub.mockRejectedValue(new Error('API Error'));
+
+      await apply(clubUpdate(['openhours']));
+
+      expect(
+        availabilityPatcher.invalidateClubAvailability,
+      ).toHaveBeenCalledWith(1);
+      expect(eventLog.acked).toEqual(['1']);
+    });
+
+    it('should retry static updates when the club cannot be fetched', async () => {
+      client.getClub
+        .mockRejectedValueOnce(new Error('API Error'))
+        .mockResolvedValueOnce(club);
+
+      await apply(clubUpdate(['attributes']));
+
+      expect(client.getClub).toHaveBeenCalledTimes(2);
+      expect(availabilityPatcher.refreshClub).toHaveBeenCalledTimes(1);
+      expect(eventLog.acked).toEqual(['1']);
+    });
+
+    it('should dead-letter the update when the cache cannot be written', async () => {
+      availabilityPatcher.applyOpenHours.mockRejectedValue(
+        new Error('Cache store did not accept the write'),
+      );
+
+      await apply(clubUpdate(['openhours']));
+
+      expect(availabilityPatcher.applyOpenHours).toHaveBeenCalledTimes(3);
+      expect(eventLog.acked).toEqual([]);
+      expect(eventLog.deadLetters).toEqual([
+        expect.objectContaining({ id: '1', attempts: 3 }),
+      ]);
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should apply a club update before the next event of the club', async () => {
+      const handled: string[] = [];
+      availabilityPatcher.applyOpenHours.mockImplementation(async () => {
+        await new Promise<void>((resolve) => setImmediate(() => resolve()));
+        handled.push('openhours');
+        return { patched: 0, invalidated: 0 };
+      });
+      availabilityPatcher.removeSlot.mockImplementation(async () => {
+        handled.push('booking');
+      });
+
+      await service.ingest(clubUpdate(['openhours']));
+      await service.ingest(booking);
+      await service.processNext(0);
+
+      expect(handled).toEqual(['openhours', 'booking']);
+    });
+  });
+});
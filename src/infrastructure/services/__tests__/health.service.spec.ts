@@ -0,0 +1,72 @@
+import { CacheStore } from '../../../domain/ports/cache-store';
+import { CircuitBreakerService } from '../circuit-breaker.service';
+import { HealthService } from '../health.service';
+
+describe('HealthService', () => {
+  let health: HealthService;
+  let cacheStore: { isHealthy: jest.Mock };
+  let circuitBreaker: { getStates: jest.Mock };
+
+  beforeEach(() => {
+    cacheStore = { isHealthy: jest.fn().mockReturnValue(true) };
+    circuitBreaker = {
+      getStates: jest
+        .fn()
+        .mockReturnValue({ clubs: 'CLOSED', slots: 'CLOSED' }),
+    };
+    health = new HealthService(
+      cacheStore as unknown as CacheStore,
+      circuitBreaker as unknown as CircuitBreakerService,
+    );
+  });
+
+  it('should be healthy and ready with cache and API available', () => {
+    expect(health.getReport()).toMatchObject({
+      status: 'healthy',
+      ready: true,
+    });
+  });
+
+  it('should stay ready without Redis while the API is reachable', () => {
+    cacheStore.isHealthy.mockReturnValue(false);
+
+    expect(health.getReport()).toMatchObject({
+      status: 'degraded',
+      ready: true,
+      checks: { cacheStore: 'unhealthy', api: 'healthy' },
+    });
+  });
+
+  it('should stay ready from the cache while a circuit is open', () => {
+    circuitBreaker.getStates.mockReturnValue({
+      clubs: 'OPEN',
+      slots: 'CLOSED',
+    });
+
+    expect(health.getReport()).toMatchObject({
+      status: 'degraded',
+      ready: true,
+      checks: { cacheStore: 'healthy', api: 'degraded' },
+    });
+  });
+
+  it('should not be ready without cache nor API', () => {
+    cacheStore.isHealthy.mockReturnValue(false);
+    circuitBreaker.getStates.mockReturnValue({ clubs: 'OPEN' });
+
+    expect(health.getReport()).toMatchObject({
+      status: 'unhealthy',
+      ready: false,
+    });
+  });
+
+  it('should stop being ready once shutdown starts', () => {
+    health.onModuleDestroy();
+
+    expect(health.getReport()).toMatchObject({
+      status: 'healthy',
+      ready: false,
+      checks: { shuttingDown: true },
+    });
+  });
+});
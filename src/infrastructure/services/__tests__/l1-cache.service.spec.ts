@@ -0,0 +1,68 @@
+import { ConfigService } from '@nestjs/config';
+
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import { L1CacheService } from '../l1-cache.service';
+
+describe('L1CacheService', () => {
+  let cacheStore: InMemoryCacheService;
+  let local: L1CacheService;
+  let remote: L1CacheService;
+
+  const config = new ConfigService({
+    L1_CACHE_TTL: 5,
+    L1_CACHE_MAX_ENTRIES: 2,
+  });
+
+  beforeEach(async () => {
+    // Un mismo store simula el canal pub/sub compartido entre instancias
+    cacheStore = new InMemoryCacheService(new ConfigService());
+    local = new L1CacheService(cacheStore, config);
+    remote = new L1CacheService(cacheStore, config);
+    await local.onModuleInit();
+    await remote.onModuleInit();
+  });
+
+  it('should expire entries after the L1 TTL', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    local.set('key', { id: 1 });
+
+    clock.mockReturnValue(now + 5000);
+    const result = local.get('key');
+    clock.mockRestore();
+
+    expect(result).toBeNull();
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    local.set('a', 1);
+    local.set('b', 2);
+    local.get('a');
+    local.set('c', 3);
+
+    expect(local.get('b')).toBeNull();
+    expect(local.get('a')).toBe(1);
+    expect(local.getMetrics().evictions).toBe(1);
+  });
+
+  it('should propagate key invalidations to other instances', async () => {
+    local.set('availability:p:2022-08-20', []);
+    remote.set('availability:p:2022-08-20', []);
+
+    await local.evict('availability:p:2022-08-20');
+
+    expect(remote.get('availability:p:2022-08-20')).toBeNull();
+    expect(remote.getMetrics().remoteInvalidations).toBe(1);
+    expect(local.getMetrics().remoteInvalidations).toBe(0);
+  });
+
+  it('should propagate pattern invalidations to other instances', async () => {
+    remote.set('availability:p:2022-08-20', []);
+    remote.set('availability:q:2022-08-20', []);
+
+    await local.evictByPattern('availability:p:*');
+
+    expect(remote.get('availability:p:2022-08-20')).toBeNull();
+    expect(remote.get('availability:q:2022-08-20')).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { Counter, Histogram, PrometheusService } from '../prometheus.service';
+
+describe('PrometheusService', () => {
+  it('should render counters per label set', () => {
+    const counter = new Counter('events_total', 'Events', ['type'] as const);
+    counter.inc({ type: 'booking_created' });
+    counter.inc({ type: 'booking_created' });
+    counter.inc({ type: 'club_updated' }, 3);
+
+    expect(counter.render()).toEqual([
+      '# HELP events_total Events',
+      '# TYPE events_total counter',
+      'events_total{type="booking_created"} 2',
+      'events_total{type="club_updated"} 3',
+    ]);
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram(
+      'latency_seconds',
+      'Latency',
+      ['outcome'] as const,
+      [0.1, 1],
+    );
+    histogram.observe({ outcome: 'fresh' }, 0.05);
+    histogram.observe({ outcome: 'fresh' }, 0.5);
+    histogram.observe({ outcome: 'fresh' }, 2);
+
+    expect(histogram.render()).toEqual([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{outcome="fresh",le="0.1"} 1',
+      'latency_seconds_bucket{outcome="fresh",le="1"} 2',
+      'latency_seconds_bucket{outcome="fresh",le="+Inf"} 3',
+      'latency_seconds_sum{outcome="fresh"} 2.55',
+      'latency_seconds_count{outcome="fresh"} 3',
+    ]);
+  });
+
+  it('should escape label values', () => {
+    const counter = new Counter('errors_total', 'Errors', ['code'] as const);
+    counter.inc({ code: 'say "hi"\\\n' });
+
+    expect(counter.render()[2]).toBe(
+      'errors_total{code="say \\"hi\\"\\\\\\n"} 1',
+    );
+  });
+
+  it('should expose every registered metric', () => {
+    const prometheus = new PrometheusService();
+    prometheus.cacheLookups.inc({ type: 'slots', result: 'hit' });
+    prometheus.upstreamDuration.observe(
+      { endpoint: 'slots', status: 200 },
+      0.2,
+    );
+
+    const output = prometheus.render();
+
+    expect(output).toContain(
+      '# TYPE search_request_duration_seconds histogram',
+    );
+    expect(output).toContain(
+      '# TYPE upstream_rate_limit_wait_seconds histogram',
+    );
+    expect(output).toContain(
+      'cache_lookups_total{type="slots",result="hit"} 1',
+    );
+    expect(output).toContain(
+      'upstream_request_duration_seconds_count{endpoint="slots",status="200"} 1',
+    );
+    expect(output.endsWith('\n')).toBe(true);
+  });
+});
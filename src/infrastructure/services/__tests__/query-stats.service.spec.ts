@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+
+import { QueryStatsService } from '../query-stats.service';
+
+describe('QueryStatsService', () => {
+  let stats: QueryStatsService;
+  let clock: jest.SpyInstance<number, []>;
+  const now = Date.now();
+
+  beforeEach(() => {
+    clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    stats = new QueryStatsService(
+      new ConfigService({
+        QUERY_STATS_HALF_LIFE_MS: 60000,
+        QUERY_STATS_MAX_ENTRIES: 2,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  it('should count queries per zone and per date', () => {
+    stats.record('a', '2022-08-20');
+    stats.record('a', '2022-08-21');
+
+    expect(stats.getScore('a')).toBe(2);
+    expect(stats.getScore('a', '2022-08-20')).toBe(1);
+    expect(stats.getScore('b')).toBe(0);
+  });
+
+  it('should halve scores after each half-life', () => {
+    stats.record('a', '2022-08-20');
+    stats.record('a', '2022-08-20');
+
+    clock.mockReturnValue(now + 60000);
+
+    expect(stats.getScore('a')).toBe(1);
+  });
+
+  it('should drop the lowest scores beyond the maximum entries', () => {
+    stats.record('a', '2022-08-20');
+    stats.record('a', '2022-08-20');
+    clock.mockReturnValue(now + 60000);
+    stats.record('b', '2022-08-20');
+    stats.record('b', '2022-08-20');
+    stats.record('c', '2022-08-20');
+
+    expect(stats.getScore('a')).toBe(0);
+    expect(stats.getMetrics()).toMatchObject({
+      trackedZones: 2,
+      topZones: [
+        { placeId: 'b', score: 2 },
+        { placeId: 'c', score: 1 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { ConfigService } from '@nestjs/config';
+
+import { CacheStore } from '../../../domain/ports/cache-store';
+import { InMemoryCacheService } from '../../clients/in-memory-cache.service';
+import { PrometheusService } from '../prometheus.service';
+import {
+  parseRetryAfter,
+  RateLimiterService,
+  RateLimitExceededError,
+} from '../rate-limiter.service';
+
+describe('RateLimiterService', () => {
+  let now: number;
+
+  const config = new ConfigService({
+    RATE_LIMIT_CAPACITY: 2,
+    RATE_LIMIT_REFILL_PER_MINUTE: 60,
+    RATE_LIMIT_MAX_WAIT_MS: 1500,
+    RATE_LIMIT_COST_SLOTS: 2,
+  });
+
+  const createLimiter = (
+    cacheStore: CacheStore = new InMemoryCacheService(config),
+  ) => new RateLimiterService(cacheStore, config, new PrometheusService());
+
+  // Backend compartido que ejecuta scripts, como Redis
+  const sharedStore = (evalResult: unknown) =>
+    ({
+      eval: jest.fn().mockResolvedValue(evalResult),
+    } as unknown as CacheStore & { eval: jest.Mock });
+
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    // Las esperas avanzan el reloj simulado en lugar de dormir
+    jest
+      .spyOn(global, 'setTimeout')
+      .mockImplementation((callback: any, ms?: number) => {
+        now += ms ?? 0;
+        callback();
+        return 0 as any;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should grant requests while there are tokens', async () => {
+    const limiter = createLimiter();
+
+    await limiter.acquire('clubs');
+    await limiter.acquire('courts');
+
+    expect(limiter.getMetrics()).toMatchObject({
+      acquired: 2,
+      delayed: 0,
+      availableTokens: 0,
+    });
+  });
+
+  it('should wait for tokens to refill', async () => {
+    const limiter = createLimiter();
+    await limiter.acquire('slots');
+
+    await limiter.acquire('clubs');
+
+    expect(limiter.getMetrics()).toMatchObject({
+      acquired: 2,
+      delayed: 1,
+      totalWaitMs: 1000,
+    });
+  });
+
+  it('should reject when the wait exceeds the maximum', async () => {
+    const limiter = createLimiter();
+    await limiter.acquire('slots');
+
+    await expect(limiter.acquire('slots')).rejects.toBeInstanceOf(
+      RateLimitExceededError,
+    );
+    expect(limiter.getMetrics().rejected).toBe(1);
+  });
+
+  it('should draw from the shared Redis bucket when available', async () => {
+    const redis = sharedStore([0, 1]);
+    const limiter = createLimiter(redis);
+
+    await limiter.acquire('slots');
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      ['ratelimit:upstream'],
+      [2, 1 / 1000, 2],
+    );
+    expect(limiter.getMetrics()).toMatchObject({
+      backend: 'redis',
+      availableTokens: 1,
+    });
+  });
+
+  it('should fall back to the local bucket when Redis is unavailable', async () => {
+    const redis = sharedStore(null);
+    const limiter = createLimiter(redis);
+
+    await limiter.acquire('clubs');
+
+    expect(limiter.getMetrics()).toMatchObject({
+      backend: 'memory',
+      availableTokens: 1,
+    });
+  });
+
+  it('should hold back every request until Retry-After elapses', async () => {
+    const limiter = createLimiter();
+
+    await limiter.backOff(1000);
+
+    await expect(limiter.acquire('clubs')).rejects.toBeInstanceOf(
+      RateLimitExceededError,
+    );
+    now += 1000;
+    await limiter.acquire('clubs');
+    expect(limiter.getMetrics()).toMatchObject({ backOffs: 1, acquired: 1 });
+  });
+
+  it('should drain the shared Redis bucket on back off', async () => {
+    const redis = sharedStore(1);
+    const limiter = createLimiter(redis);
+
+    await limiter.backOff(3000);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      ['ratelimit:upstream'],
+      [3, 10000],
+    );
+    expect(limiter.getAvailableTokens()).toBe(0);
+  });
+
+  it('should estimate the shared bucket refill after a back off', async () => {
+    const redis = sharedStore([0, 1]);
+    const limiter = createLimiter(redis);
+    await limiter.acquire('clubs');
+    redis.eval.mockResolvedValue(1);
+
+    await limiter.backOff(3000);
+    expect(limiter.getAvailableTokens()).toBe(0);
+
+    now += 3000;
+    expect(limiter.getAvailableTokens()).toBe(0);
+    now += 1000;
+    expect(limiter.getAvailableTokens()).toBe(1);
+    now += 60000;
+    expect(limiter.getAvailableTokens()).toBe(2);
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    now = Date.UTC(2022, 7, 20);
+
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(now + 5000).toUTCString())).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import { ConfigService } from '@nestjs/config';
+
+import { SpanRecord } from '../../../domain/ports/span-exporter';
+import { TracingService } from '../tracing.service';
+
+describe('TracingService', () => {
+  let spans: SpanRecord[];
+  let exporter: { export: jest.Mock; close: jest.Mock };
+
+  const createService = (config: Record<string, unknown> = {}) =>
+    new TracingService(exporter, new ConfigService(config));
+
+  beforeEach(() => {
+    spans = [];
+    exporter = {
+      export: jest.fn(async (span: SpanRecord) => {
+        spans.push(span);
+      }),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should nest spans under the current one within a trace', async () => {
+    const tracing = createService();
+
+    await tracing.startTrace('req-1', () =>
+      tracing.trace('availability.query', { placeId: 'p1' }, () =>
+        tracing.trace('cache.get', { key: 'availability:p1' }, async () =>
+          tracing.getTraceId(),
+        ),
+      ),
+    );
+
+    expect(spans.map((span) => span.name)).toEqual([
+      'cache.get',
+      'availability.query',
+    ]);
+    const [child, parent] = spans;
+    expect(child.traceId).toBe('req-1');
+    expect(parent.traceId).toBe('req-1');
+    expect(parent.parentId).toBeNull();
+    expect(child.parentId).toBe(parent.spanId);
+    expect(parent.attributes).toEqual({ placeId: 'p1' });
+  });
+
+  it('should record the error and rethrow it', async () => {
+    const tracing = createService();
+
+    await expect(
+      tracing.startTrace('req-1', () =>
+        tracing.trace('upstream.request', {}, async () => {
+          throw new Error('timeout');
+        }),
+      ),
+    ).rejects.toThrow('timeout');
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: 'upstream.request',
+        status: 'error',
+        error: 'timeout',
+      }),
+    ]);
+  });
+
+  it('should add annotations to the current span', async () => {
+    const tracing = createService();
+
+    await tracing.startTrace('req-1', () =>
+      tracing.trace('cache.get', { key: 'zones' }, async () => {
+        tracing.annotate({ result: 'hit' });
+      }),
+    );
+
+    expect(spans[0].attributes).toEqual({ key: 'zones', result: 'hit' });
+  });
+
+  it('should not record spans outside a trace', async () => {
+    const tracing = createService();
+
+    const result = await tracing.trace('cache.get', {}, async () => 'value');
+
+    expect(result).toBe('value');
+    expect(tracing.getTraceId()).toBeUndefined();
+    expect(exporter.export).not.toHaveBeenCalled();
+  });
+
+  it('should keep the trace id but skip export when not sampled', async () => {
+    const tracing = createService({ TRACE_SAMPLE_RATE: 0 });
+
+    const traceId = await tracing.startTrace('req-1', () =>
+      tracing.trace('cache.get', {}, async () => tracing.getTraceId()),
+    );
+
+    expect(traceId).toBe('req-1');
+    expect(exporter.export).not.toHaveBeenCalled();
+  });
+
+  it('should export each span only once', () => {
+    const tracing = createService();
+
+    tracing.startTrace('req-1', () => {
+      const span = tracing.startSpan('http.request');
+      span?.end(new Error('aborted'));
+      span?.end();
+    });
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].status).toBe('error');
+  });
+
+  it('should not fail the operation when the export fails', async () => {
+    exporter.export.mockRejectedValue(new Error('disk full'));
+    const tracing = createService();
+
+    await expect(
+      tracing.startTrace('req-1', () =>
+        tracing.trace('cache.set', {}, async () => 'stored'),
+      ),
+    ).resolves.toBe('stored');
+    await new Promise(setImmediate);
+    expect(exporter.export).toHaveBeenCalledTimes(1);
+  });
+});
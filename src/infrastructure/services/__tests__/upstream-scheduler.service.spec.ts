@@ -0,0 +1,179 @@
+import { ConfigService } from '@nestjs/config';
+
+import { CacheStore } from '../../../domain/ports/cache-store';
+import { PrometheusService } from '../prometheus.service';
+import { RateLimiterService } from '../rate-limiter.service';
+import {
+  RequestDroppedError,
+  UpstreamSchedulerService,
+} from '../upstream-scheduler.service';
+
+describe('UpstreamSchedulerService', () => {
+  let scheduler: UpstreamSchedulerService;
+  let rateLimiter: { getAvailableTokens: jest.Mock; getCapacity: jest.Mock };
+
+  beforeEach(() => {
+    rateLimiter = {
+      getAvailableTokens: jest.fn().mockReturnValue(20),
+      getCapacity: jest.fn().mockReturnValue(20),
+    };
+    scheduler = new UpstreamSchedulerService(
+      rateLimiter as unknown as RateLimiterService,
+      new ConfigService(),
+    );
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should dispatch interactive requests even without budget', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(0);
+
+    const result = await scheduler.schedule('clubs:a', async () => 'clubs');
+
+    expect(result).toBe('clubs');
+    expect(scheduler.getMetrics().interactive.dispatched).toBe(1);
+  });
+
+  it('should defer low priority requests while the budget is tight', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(5);
+    const task = jest.fn().mockResolvedValue([]);
+
+    const pending = scheduler.runWithPriority('prefetch', () =>
+      scheduler.schedule('courts:1', task),
+    );
+
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.getMetrics().prefetch.queued).toBe(1);
+
+    rateLimiter.getAvailableTokens.mockReturnValue(15);
+    await expect(pending).resolves.toEqual([]);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop low priority requests deferred for too long', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(0);
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    const pending = scheduler.runWithPriority('prefetch', () =>
+      scheduler.schedule('courts:1', jest.fn()),
+    );
+    clock.mockReturnValue(now + 10001);
+    await scheduler.schedule('clubs:a', async () => []);
+
+    await expect(pending).rejects.toBeInstanceOf(RequestDroppedError);
+    expect(scheduler.getMetrics().prefetch).toMatchObject({
+      queued: 0,
+      dropped: 1,
+    });
+  });
+
+  it('should promote a queued request when an interactive caller needs it', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(0);
+    const task = jest.fn().mockResolvedValue(['court']);
+
+    const prefetch = scheduler.runWithPriority('warmup', () =>
+      scheduler.schedule('courts:1', task),
+    );
+    const interactive = await scheduler.schedule('courts:1', jest.fn());
+
+    expect(interactive).toEqual(['court']);
+    await expect(prefetch).resolves.toEqual(['court']);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics().interactive.dispatched).toBe(1);
+  });
+
+  it('should run the task with the priority of its class', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(20);
+
+    const priority = await scheduler.runWithPriority('refresh', () =>
+      scheduler.schedule('slots:1:1:2022-08-20', async () =>
+        scheduler.getCurrentPriority(),
+      ),
+    );
+
+    expect(priority).toBe('refresh');
+  });
+
+  it('should resume deferred requests once the shared bucket recovers from a back off', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const limiter = new RateLimiterService(
+      { eval: jest.fn().mockResolvedValue(1) } as unknown as CacheStore,
+      new ConfigService({
+        RATE_LIMIT_CAPACITY: 20,
+        RATE_LIMIT_REFILL_PER_MINUTE: 60,
+      }),
+      new PrometheusService(),
+    );
+    scheduler = new UpstreamSchedulerService(limiter, new ConfigService());
+    await limiter.backOff(1000);
+    const task = jest.fn().mockResolvedValue([]);
+
+    const pending = scheduler.runWithPriority('refresh', () =>
+      scheduler.schedule('slots:1:1:2022-08-20', task),
+    );
+    expect(task).not.toHaveBeenCalled();
+
+    // 1s para saldar la deuda del 429 y 5s más para el 25% de la capacidad
+    clock.mockReturnValue(now + 6000);
+    await expect(pending).resolves.toEqual([]);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop deferred prefetch and warmup requests on shutdown', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(0);
+    const task = jest.fn();
+
+    const pending = scheduler.runWithPriority('prefetch', () =>
+      scheduler.schedule('courts:1', task),
+    );
+    scheduler.onModuleDestroy();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestDroppedError);
+    await expect(
+      scheduler.runWithPriority('warmup', () =>
+        scheduler.schedule('clubs:a', task),
+      ),
+    ).rejects.toBeInstanceOf(RequestDroppedError);
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.getMetrics().prefetch).toMatchObject({
+      queued: 0,
+      dropped: 1,
+    });
+  });
+
+  it('should keep dispatching refreshes queued at shutdown', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(0);
+    const task = jest.fn().mockResolvedValue([]);
+
+    const pending = scheduler.runWithPriority('refresh', () =>
+      scheduler.schedule('slots:1:1:2022-08-20', task),
+    );
+    scheduler.onModuleDestroy();
+    rateLimiter.getAvailableTokens.mockReturnValue(20);
+
+    await expect(pending).resolves.toEqual([]);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop refreshes still queued when the drain timeout elapses', async () => {
+    rateLimiter.getAvailableTokens.mockReturnValue(0);
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const task = jest.fn();
+
+    const pending = scheduler.runWithPriority('refresh', () =>
+      scheduler.schedule('slots:1:1:2022-08-20', task),
+    );
+    scheduler.onModuleDestroy();
+    clock.mockReturnValue(now + 10000);
+    await scheduler.schedule('clubs:a', async () => []);
+
+    await expect(pending).rejects.toThrow('shutdown drain timeout');
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -1,22 +1,70 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { RedisService } from '../clients/redis.service';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import { L1CacheService } from './l1-cache.service';
+import { PrometheusService } from './prometheus.service';
+import { TracingService } from './tracing.service';
+
+export interface CacheLookup<T> {
+  data: T | null;
+  isStale: boolean;
+  // Segundos desde que el dato se obtuvo de la API
+  age: number;
+}
+
+type DataType =
+  | 'ZONES'
+  | 'CLUB'
+  | 'COURT'
+  | 'CLUBS'
+  | 'COURTS'
+  | 'SLOTS'
+  | 'AVAILABILITY';
+
+export interface CacheEntrySnapshot {
+  key: string;
+  value: unknown;
+  // Segundos restantes (-2 si la clave no existe)
+  ttl: number;
+}
+
+export interface CacheEntryInfo extends CacheEntrySnapshot {
+  inL1: boolean;
+  stale: CacheEntrySnapshot | null;
+}
+
+/**
+ * El almacenamiento no aceptó una escritura o no está disponible
+ */
+export class CacheWriteError extends Error {
+  constructor(readonly key: string) {
+    super(`Cache store did not accept the write for key: ${key}`);
+    this.name = CacheWriteError.name;
+  }
+}
 
 /**
  * Servicio de cache avanzado con estrategias inteligentes
- * 
+ *
  * Características:
  * - TTL dinámico basado en tipo de datos y tiempo de acceso
  * - Fallback a datos desactualizados cuando la API falla
  * - Prefetch inteligente de datos relacionados
  * - Invalidación selectiva por patrones
- * - Métricas de cache hit/miss
+ * - Métricas de cache hit/miss por tipo de clave
+ * - Backend intercambiable (Redis o memoria) vía `CACHE_STORE`
+ * - Tier L1 en memoria para las consultas más frecuentes
+ * - Versión por clave para respuestas condicionales (ETag)
  */
 @Injectable()
 export class AdvancedCacheService {
   private readonly logger = new Logger(AdvancedCacheService.name);
-  
+
   // TTLs optimizados por tipo de datos
   private readonly TTL_CONFIG = {
+    ZONES: 86400, // 1 día - catálogo que casi no cambia
+    CLUB: 3600, // 1 hora - detalle de un club
+    COURT: 1800, // 30 minutos - detalle de una cancha
     CLUBS: 3600, // 1 hora - datos relativamente estables
     COURTS: 1800, // 30 minutos - pueden cambiar con menos frecuencia
     SLOTS: 300, // 5 minutos - datos más dinámicos
@@ -26,33 +74,73 @@ export class AdvancedCacheService {
   // TTL para datos desactualizados (fallback)
   private readonly STALE_TTL = 7200; // 2 horas
 
-  constructor(private readonly redisService: RedisService) {}
+  // Tipos de datos que además se guardan en el tier L1
+  private readonly L1_TYPES = ['availability'];
+
+  // Tipos de datos con un número de versión que cambia con cada escritura
+  private readonly VERSIONED_TYPES = ['availability'];
+  private readonly VERSION_TTL = 86400; // 1 día
+
+  private metrics = {
+    invalidatedKeys: 0,
+    patternInvalidations: 0,
+  };
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly l1Cache: L1CacheService,
+    private readonly prometheus: PrometheusService,
+    private readonly tracing: TracingService,
+  ) {}
 
   /**
    * Obtiene datos del cache con fallback a datos desactualizados
    */
-  async getWithFallback<T>(
+  getWithFallback<T>(
     key: string,
-    staleKey?: string
+    staleKey?: string,
   ): Promise<{ data: T | null; isStale: boolean }> {
+    return this.tracing.trace('cache.get', { key }, () =>
+      this.lookupWithFallback<T>(key, staleKey),
+    );
+  }
+
+  private async lookupWithFallback<T>(
+    key: string,
+    staleKey?: string,
+  ): Promise<{ data: T | null; isStale: boolean }> {
+    const useL1 = this.isL1Key(key);
     try {
+      if (useL1) {
+        const l1Data = this.l1Cache.get<T>(key);
+        if (l1Data !== null) {
+          this.logger.debug(`Cache hit (L1) for key: ${key}`);
+          this.recordLookup(key, 'hit');
+          return { data: l1Data, isStale: false };
+        }
+      }
+
       // Intentar obtener datos frescos
-      const freshData = await this.redisService.get(key);
+      const freshData = await this.cacheStore.get(key);
       if (freshData) {
         this.logger.debug(`Cache hit (fresh) for key: ${key}`);
+        this.recordLookup(key, 'hit');
         return { data: JSON.parse(freshData), isStale: false };
       }
 
       // Si no hay datos frescos, intentar datos desactualizados
       if (staleKey) {
-        const staleData = await this.redisService.get(staleKey);
+        const staleData = await this.cacheStore.get(staleKey);
         if (staleData) {
           this.logger.debug(`Cache hit (stale) for key: ${staleKey}`);
+          this.recordLookup(key, 'stale');
           return { data: JSON.parse(staleData), isStale: true };
         }
       }
 
       this.logger.debug(`Cache miss for key: ${key}`);
+      this.recordLookup(key, 'miss');
       return { data: null, isStale: false };
     } catch (error) {
       this.logger.error(`Error getting cache for key ${key}:`, error);
@@ -60,25 +148,139 @@ export class AdvancedCacheService {
     }
   }
 
+  /**
+   * Igual que getWithFallback, pero además informa la antigüedad del dato.
+   * La antigüedad se deriva del TTL restante, que `patch` conserva.
+   */
+  getWithAge<T>(key: string, staleKey?: string): Promise<CacheLookup<T>> {
+    return this.tracing.trace('cache.get', { key }, () =>
+      this.lookupWithAge<T>(key, staleKey),
+    );
+  }
+
+  private async lookupWithAge<T>(
+    key: string,
+    staleKey?: string,
+  ): Promise<CacheLookup<T>> {
+    const useL1 = this.isL1Key(key);
+    try {
+      if (useL1) {
+        const entry = this.l1Cache.getEntry<T>(key);
+        if (entry) {
+          this.logger.debug(`Cache hit (L1) for key: ${key}`);
+          this.recordLookup(key, 'hit');
+          return {
+            data: entry.data,
+            isStale: false,
+            age: Math.floor((Date.now() - entry.cachedAt) / 1000),
+          };
+        }
+      }
+
+      const [freshData, freshTTL] = await Promise.all([
+        this.cacheStore.get(key),
+        this.cacheStore.ttl(key),
+      ]);
+      if (freshData) {
+        this.logger.debug(`Cache hit (fresh) for key: ${key}`);
+        this.recordLookup(key, 'hit');
+        const data: T = JSON.parse(freshData);
+        const age = this.getAge(freshTTL, this.getTTL(key));
+        if (useL1) {
+          this.l1Cache.set(key, data, Date.now() - age * 1000);
+        }
+        return { data, isStale: false, age };
+      }
+
+      if (staleKey) {
+        const [staleData, staleTTL] = await Promise.all([
+          this.cacheStore.get(staleKey),
+          this.cacheStore.ttl(staleKey),
+        ]);
+        if (staleData) {
+          this.logger.debug(`Cache hit (stale) for key: ${staleKey}`);
+          this.recordLookup(key, 'stale');
+          return {
+            data: JSON.parse(staleData),
+            isStale: true,
+            age: this.getAge(staleTTL, this.STALE_TTL),
+          };
+        }
+      }
+
+      this.logger.debug(`Cache miss for key: ${key}`);
+      this.recordLookup(key, 'miss');
+      return { data: null, isStale: false, age: 0 };
+    } catch (error) {
+      this.logger.error(`Error getting cache for key ${key}:`, error);
+      return { data: null, isStale: false, age: 0 };
+    }
+  }
+
+  /**
+   * Devuelve el dato fresco del cache o lo obtiene con `load`, que se
+   * encarga de cachearlo. Si `load` falla se usa la copia desactualizada,
+   * salvo que `useStale` indique que el error no lo admite.
+   */
+  async getOrLoad<T>(
+    key: string,
+    staleKey: string,
+    load: () => Promise<T>,
+    useStale: (error: unknown) => boolean = () => true,
+  ): Promise<T> {
+    const cached = await this.getWithAge<T>(key);
+    if (cached.data !== null) {
+      return cached.data;
+    }
+
+    try {
+      return await load();
+    } catch (error) {
+      if (useStale(error)) {
+        const { data } = await this.getWithFallback<T>(key, staleKey);
+        if (data !== null) {
+          this.logger.warn(`Using stale data for key: ${key}`);
+          return data;
+        }
+      }
+      throw error;
+    }
+  }
+
   /**
    * Almacena datos con TTL inteligente y backup desactualizado
    */
-  async setWithIntelligentTTL<T>(
+  setWithIntelligentTTL<T>(
+    key: string,
+    data: T,
+    dataType: DataType,
+    staleKey?: string,
+  ): Promise<void> {
+    return this.tracing.trace('cache.set', { key }, () =>
+      this.store(key, data, dataType, staleKey),
+    );
+  }
+
+  private async store<T>(
     key: string,
     data: T,
-    dataType: 'CLUBS' | 'COURTS' | 'SLOTS' | 'AVAILABILITY',
-    staleKey?: string
+    dataType: DataType,
+    staleKey?: string,
   ): Promise<void> {
     try {
       const ttl = this.TTL_CONFIG[dataType];
       const serializedData = JSON.stringify(data);
 
       // Almacenar datos frescos
-      await this.redisService.set(key, serializedData, ttl);
+      await this.cacheStore.set(key, serializedData, ttl);
+      if (this.isL1Key(key)) {
+        this.l1Cache.set(key, data);
+      }
+      await this.bumpVersion(key);
 
       // Crear backup desactualizado si se especifica
       if (staleKey) {
-        await this.redisService.set(staleKey, serializedData, this.STALE_TTL);
+        await this.cacheStore.set(staleKey, serializedData, this.STALE_TTL);
       }
 
       this.logger.debug(`Cached data for key: ${key} with TTL: ${ttl}s`);
@@ -88,40 +290,180 @@ export class AdvancedCacheService {
   }
 
   /**
-   * Invalidación selectiva por patrones
+   * Estado de una clave y de su copia desactualizada, para diagnóstico.
+   * No cuenta como acceso en las métricas del tier L1.
    */
-  async invalidateByPattern(pattern: string): Promise<void> {
+  async inspect(key: string): Promise<CacheEntryInfo> {
+    const [type, ...params] = key.split(':');
+    const staleKey =
+      params.length > 0 && params[0] !== 'stale'
+        ? this.generateStaleKey(type, ...params)
+        : null;
+
+    const [entry, stale] = await Promise.all([
+      this.snapshot(key),
+      staleKey ? this.snapshot(staleKey) : null,
+    ]);
+    return { ...entry, inL1: this.l1Cache.has(key), stale };
+  }
+
+  /**
+   * Invalida un conjunto de claves conocidas.
+   * Devuelve la cantidad de claves eliminadas; rechaza si no se pudieron eliminar.
+   */
+  async invalidate(...keys: string[]): Promise<number> {
     try {
-      // En una implementación real, usaríamos SCAN para evitar bloqueos
-      // Por simplicidad, usamos las claves conocidas
-      const keysToInvalidate = await this.getKeysByPattern(pattern);
-      
-      for (const key of keysToInvalidate) {
-        await this.redisService.del(key);
+      // Sin conexión el almacenamiento informa 0 claves eliminadas
+      if (!this.cacheStore.isHealthy()) {
+        throw new CacheWriteError(keys.join(', '));
       }
+      const invalidated = await this.cacheStore.unlink(keys);
+      await this.l1Cache.evict(...keys);
+      this.metrics.invalidatedKeys += invalidated;
+      this.logger.debug(`Invalidated ${invalidated} keys`);
+      return invalidated;
+    } catch (error) {
+      this.logger.error(`Error invalidating keys ${keys.join(', ')}:`, error);
+      throw error;
+    }
+  }
 
-      this.logger.debug(`Invalidated ${keysToInvalidate.length} keys matching pattern: ${pattern}`);
+  /**
+   * Invalidación selectiva por patrones.
+   * Devuelve la cantidad de claves eliminadas.
+   */
+  async invalidateByPattern(pattern: string): Promise<number> {
+    let invalidated = 0;
+    try {
+      invalidated = await this.cacheStore.deleteByPattern(pattern);
+      await this.l1Cache.evictByPattern(pattern);
+
+      this.metrics.patternInvalidations++;
+      this.metrics.invalidatedKeys += invalidated;
+      this.logger.debug(
+        `Invalidated ${invalidated} keys matching pattern: ${pattern}`,
+      );
     } catch (error) {
       this.logger.error(`Error invalidating pattern ${pattern}:`, error);
     }
+    return invalidated;
+  }
+
+  /**
+   * Invalida todas las claves de cache (frescas y desactualizadas) sin tocar
+   * el resto de los datos que comparten el almacenamiento
+   */
+  async invalidateAll(): Promise<number> {
+    let invalidated = 0;
+    for (const type of Object.keys(this.TTL_CONFIG)) {
+      invalidated += await this.invalidateByPattern(`${type.toLowerCase()}:*`);
+    }
+    return invalidated;
+  }
+
+  /**
+   * Modifica una entrada existente conservando su TTL restante.
+   * El updater devuelve null cuando no hay nada que cambiar.
+   * Rechaza si la entrada no se pudo leer o escribir, para que quien aplica
+   * el cambio pueda reintentarlo.
+   */
+  async patch<T>(
+    key: string,
+    updater: (data: T) => T | null,
+  ): Promise<boolean> {
+    // Sin entrada o sin cambios no hay nada que descartar del L1
+    let skipped = false;
+    try {
+      const [serialized, ttl] = await Promise.all([
+        this.cacheStore.get(key),
+        this.cacheStore.ttl(key),
+      ]);
+      if (!serialized || ttl === -2) {
+        // Sin conexión el almacenamiento responde como si la clave no existiera
+        if (!this.cacheStore.isHealthy()) {
+          throw new CacheWriteError(key);
+        }
+        skipped = true;
+        return false;
+      }
+
+      const updated = updater(JSON.parse(serialized));
+      if (updated === null) {
+        skipped = true;
+        return false;
+      }
+
+      const written = await this.cacheStore.set(
+        key,
+        JSON.stringify(updated),
+        ttl > 0 ? ttl : undefined,
+      );
+      if (!written) {
+        throw new CacheWriteError(key);
+      }
+      await this.bumpVersion(key);
+      this.logger.debug(`Patched cache entry for key: ${key}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error patching cache for key ${key}:`, error);
+      throw error;
+    } finally {
+      // Se descarta también en las demás instancias, que pueden tenerla en L1
+      if (!skipped && this.isL1Key(key)) {
+        await this.l1Cache.evict(key);
+      }
+    }
+  }
+
+  /**
+   * Versión actual de una clave versionada. Cambia cada vez que la entrada se
+   * escribe o se parchea, sin necesidad de leer su contenido.
+   * Devuelve null si el almacenamiento no responde.
+   */
+  async getVersion(key: string): Promise<string | null> {
+    const versionKey = this.generateVersionKey(key);
+    try {
+      const version = await this.cacheStore.get(versionKey);
+      if (version !== null) {
+        return version;
+      }
+
+      // Arranca en el timestamp actual: si la versión se pierde no se repiten
+      // valores ya entregados a los clientes
+      await this.cacheStore.setIfAbsent(
+        versionKey,
+        String(Date.now()),
+        this.VERSION_TTL,
+      );
+      return await this.cacheStore.get(versionKey);
+    } catch (error) {
+      this.logger.error(`Error getting version for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * true si la clave tiene datos frescos. Solo consulta el TTL, no lee el valor.
+   */
+  async isFresh(key: string): Promise<boolean> {
+    try {
+      return (await this.cacheStore.ttl(key)) !== -2;
+    } catch (error) {
+      this.logger.error(`Error checking ttl for key ${key}:`, error);
+      return false;
+    }
   }
 
   /**
    * Prefetch de datos relacionados
    */
-  async prefetchRelatedData(
-    placeId: string,
-    clubIds: number[],
-    date: Date
-  ): Promise<void> {
+  async prefetchRelatedData(placeId: string, clubIds: number[]): Promise<void> {
     try {
       const prefetchPromises: Promise<void>[] = [];
 
       // Prefetch courts para cada club
       for (const clubId of clubIds) {
-        prefetchPromises.push(
-          this.prefetchCourtsForClub(clubId)
-        );
+        prefetchPromises.push(this.prefetchCourtsForClub(clubId));
       }
 
       // Usar Promise.all en lugar de allSettled para compatibilidad
@@ -130,13 +472,20 @@ export class AdvancedCacheService {
       } catch (error) {
         this.logger.warn('Some prefetch operations failed:', error);
       }
-      
+
       this.logger.debug(`Prefetched related data for place: ${placeId}`);
     } catch (error) {
       this.logger.error('Error prefetching related data:', error);
     }
   }
 
+  /**
+   * Obtiene métricas de invalidación
+   */
+  getMetrics() {
+    return { ...this.metrics };
+  }
+
   /**
    * Genera claves de cache consistentes
    */
@@ -151,16 +500,71 @@ export class AdvancedCacheService {
     return `${type}:stale:${params.join(':')}`;
   }
 
-  private async getKeysByPattern(pattern: string): Promise<string[]> {
-    // Implementación simplificada - en producción usar SCAN
-    const commonPatterns: Record<string, string[]> = {
-      'clubs:*': ['clubs:ChIJoYUAHyvmopUR4xJzVPBE_Lw', 'clubs:ChIJW9fXNZNTtpURV6VYAumGQOw'],
-      'courts:*': [],
-      'slots:*': [],
-      'availability:*': []
-    };
+  /**
+   * Clave del número de versión. No empieza con el tipo de datos, así las
+   * invalidaciones por patrón (`availability:*`) no la borran.
+   */
+  private generateVersionKey(key: string): string {
+    return `version:${key}`;
+  }
+
+  private async bumpVersion(key: string): Promise<void> {
+    if (!this.isVersionedKey(key)) {
+      return;
+    }
+
+    const versionKey = this.generateVersionKey(key);
+    const created = await this.cacheStore.setIfAbsent(
+      versionKey,
+      String(Date.now()),
+      this.VERSION_TTL,
+    );
+    if (!created) {
+      await this.cacheStore.incr(versionKey, this.VERSION_TTL);
+    }
+  }
+
+  private async snapshot(key: string): Promise<CacheEntrySnapshot> {
+    const [raw, ttl] = await Promise.all([
+      this.cacheStore.get(key),
+      this.cacheStore.ttl(key),
+    ]);
+    let value: unknown = raw;
+    try {
+      value = raw === null ? null : JSON.parse(raw);
+    } catch {
+      // Valor que no es JSON: se devuelve tal cual
+    }
+    return { key, value, ttl };
+  }
+
+  private recordLookup(key: string, result: 'hit' | 'stale' | 'miss'): void {
+    this.prometheus.cacheLookups.inc({ type: key.split(':')[0], result });
+    this.tracing.annotate({ result });
+  }
+
+  // Las copias desactualizadas nunca se guardan en L1
+  private isL1Key(key: string): boolean {
+    const [type, scope] = key.split(':');
+    return this.L1_TYPES.includes(type) && scope !== 'stale';
+  }
+
+  // Las copias desactualizadas no tienen versión propia
+  private isVersionedKey(key: string): boolean {
+    const [type, scope] = key.split(':');
+    return this.VERSIONED_TYPES.includes(type) && scope !== 'stale';
+  }
+
+  /**
+   * TTL configurado según el tipo de la clave (`clubs:...` -> CLUBS)
+   */
+  private getTTL(key: string): number | undefined {
+    const type = key.split(':')[0].toUpperCase();
+    return (this.TTL_CONFIG as Record<string, number>)[type];
+  }
 
-    return commonPatterns[pattern] || [];
+  private getAge(remainingTTL: number, ttl?: number): number {
+    return ttl && remainingTTL > 0 ? Math.max(0, ttl - remainingTTL) : 0;
   }
 
   private async prefetchCourtsForClub(clubId: number): Promise<void> {
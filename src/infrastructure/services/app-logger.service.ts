@@ -0,0 +1,187 @@
+import { Injectable, LoggerService } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Level, Logger as PinoLogger, pino } from 'pino';
+
+import { TracingService } from './tracing.service';
+
+/**
+ * Campos que se pueden pasar como mensaje o parámetro adicional a un `Logger`
+ * de Nest, por ejemplo `logger.log({ msg: 'Cache hit', placeId, durationMs })`
+ */
+export type LogFields = Record<string, unknown>;
+
+// Claves cuyo valor nunca se escribe, en cualquier nivel de los campos
+const REDACTED_KEYS = [
+  'authorization',
+  'password',
+  'secret',
+  'signature',
+  'token',
+];
+const REDACTED_PATHS = [
+  ...REDACTED_KEYS,
+  ...REDACTED_KEYS.map((key) => `*.${key}`),
+  'headers["x-webhook-signature"]',
+  '*.headers["x-webhook-signature"]',
+];
+
+// Variables de entorno cuyo valor se borra también del texto de los mensajes
+const SECRET_SETTINGS = ['ADMIN_TOKEN', 'WEBHOOK_SECRET', 'REDIS_PASSWORD'];
+
+const REDACTED = '[REDACTED]';
+
+type NestLevel = 'log' | 'error' | 'warn' | 'debug' | 'verbose';
+
+const LEVELS: Record<NestLevel, Level> = {
+  log: 'info',
+  error: 'error',
+  warn: 'warn',
+  debug: 'debug',
+  verbose: 'trace',
+};
+
+/**
+ * Logger de la aplicación: reemplaza al de Nest (`app.useLogger`) y escribe
+ * una línea JSON por log con pino.
+ * - Cada línea lleva el contexto (`context`) y el request id de la traza en
+ *   curso (`requestId`)
+ * - Los campos de un objeto pasado como mensaje o parámetro se escriben tal
+ *   cual, para poder filtrar por clubId, placeId, outcome, durationMs...
+ * - `LOG_LEVEL` define el nivel general y `LOG_LEVELS` el de cada módulo
+ *   (`CircuitBreaker=warn,AdvancedCacheService=debug`)
+ * - Los secretos se reemplazan por `[REDACTED]`, tanto en campos conocidos
+ *   como en el texto de los mensajes
+ */
+@Injectable()
+export class AppLogger implements LoggerService {
+  private readonly root: PinoLogger;
+  private readonly moduleLevels = new Map<string, Level>();
+  private readonly loggers = new Map<string, PinoLogger>();
+  private readonly secrets: string[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly tracing: TracingService,
+  ) {
+    this.root = pino(
+      {
+        level: this.configService.get<string>('LOG_LEVEL', 'info'),
+        base: undefined,
+        timestamp: pino.stdTimeFunctions.isoTime,
+        formatters: { level: (label) => ({ level: label }) },
+        redact: { paths: REDACTED_PATHS, censor: REDACTED },
+      },
+      process.stdout,
+    );
+
+    this.parseModuleLevels(this.configService.get<string>('LOG_LEVELS', ''));
+    this.secrets = SECRET_SETTINGS.map((setting) =>
+      this.configService.get<string>(setting),
+    ).filter((value): value is string => !!value);
+  }
+
+  log(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('log', message, optionalParams);
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('error', message, optionalParams);
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('warn', message, optionalParams);
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('debug', message, optionalParams);
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('verbose', message, optionalParams);
+  }
+
+  private write(
+    level: NestLevel,
+    message: unknown,
+    optionalParams: unknown[],
+  ): void {
+    // Nest agrega el contexto del Logger como último parámetro
+    const params = [...optionalParams];
+    const context =
+      params.length > 0 && typeof params[params.length - 1] === 'string'
+        ? (params.pop() as string)
+        : undefined;
+
+    const fields: LogFields = {};
+    const requestId = this.tracing.getTraceId();
+    if (requestId) {
+      fields.requestId = requestId;
+    }
+
+    let msg: unknown = message;
+    if (message instanceof Error) {
+      fields.err = message;
+      msg = message.message;
+    } else if (isFields(message)) {
+      const { msg: text, ...rest } = message;
+      Object.assign(fields, rest);
+      msg = text;
+    }
+
+    for (const param of params) {
+      if (param instanceof Error) {
+        fields.err = param;
+      } else if (isFields(param)) {
+        Object.assign(fields, param);
+      } else if (typeof param === 'string') {
+        // `logger.error(message, stack)`
+        fields[level === 'error' ? 'stack' : 'detail'] = this.scrub(param);
+      }
+    }
+
+    const text = msg === undefined ? undefined : this.scrub(String(msg));
+    this.loggerFor(context)[LEVELS[level]](fields, text);
+  }
+
+  private loggerFor(context: string | undefined): PinoLogger {
+    if (!context) {
+      return this.root;
+    }
+
+    let logger = this.loggers.get(context);
+    if (!logger) {
+      // `CircuitBreaker:clubs` toma el nivel de `CircuitBreaker` si no tiene uno propio
+      const level =
+        this.moduleLevels.get(context) ??
+        this.moduleLevels.get(context.split(':')[0]);
+      logger = this.root.child({ context }, level ? { level } : {});
+      this.loggers.set(context, logger);
+    }
+    return logger;
+  }
+
+  private parseModuleLevels(setting: string): void {
+    for (const entry of setting.split(',')) {
+      const [module, level] = entry.split('=').map((part) => part.trim());
+      if (!module || !level) {
+        continue;
+      }
+      if (!(level in this.root.levels.values)) {
+        this.root.warn(`Ignoring unknown log level ${level} for ${module}`);
+        continue;
+      }
+      this.moduleLevels.set(module, level as Level);
+    }
+  }
+
+  private scrub(text: string): string {
+    return this.secrets.reduce(
+      (result, secret) => result.split(secret).join(REDACTED),
+      text,
+    );
+  }
+}
+
+function isFields(value: unknown): value is LogFields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,341 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as moment from 'moment';
+
+import { ClubWithAvailability } from '../../domain/commands/get-availability.query';
+import { Club, Court, OpenHours, Slot } from '../../domain/model';
+import { AdvancedCacheService } from './advanced-cache.service';
+import { CacheIndexService } from './cache-index.service';
+
+type SlotsUpdater = (slots: Slot[]) => Slot[] | null;
+
+/**
+ * Servicio que aplica los eventos sobre el cache existente:
+ * - Quita el slot reservado de `slots:*` y `availability:*`
+ * - Reinserta el slot liberado respetando el orden por horario
+ * - Actualiza los datos estáticos de un club sin tocar su disponibilidad
+ * - Recalcula la disponibilidad cuando cambian los horarios de un club
+ * - Conserva el TTL de cada entrada para no extender su vigencia
+ */
+@Injectable()
+export class AvailabilityPatcherService {
+  private readonly logger = new Logger(AvailabilityPatcherService.name);
+
+  constructor(
+    private readonly advancedCache: AdvancedCacheService,
+    private readonly cacheIndex: CacheIndexService,
+  ) {}
+
+  /**
+   * Quita un slot reservado de las entradas cacheadas.
+   * Devuelve la cantidad de entradas modificadas.
+   */
+  async removeSlot(clubId: number, courtId: number, slot: Slot) {
+    return this.patchSlots(clubId, courtId, slot, (slots) =>
+      withoutSlot(slots, slot),
+    );
+  }
+
+  /**
+   * Reinserta un slot liberado en las entradas cacheadas.
+   * Devuelve la cantidad de entradas modificadas.
+   */
+  async restoreSlot(clubId: number, courtId: number, slot: Slot) {
+    return this.patchSlots(clubId, courtId, slot, (slots) =>
+      withSlot(slots, slot),
+    );
+  }
+
+  /**
+   * Devuelve los horarios cacheados de un club, previos a una actualización.
+   * Se buscan en todas las zonas donde el club está cacheado según el índice:
+   * una búsqueda puede devolver clubs de otra zona
+   */
+  async getCachedOpenHours(club: Club): Promise<OpenHours[] | null> {
+    for (const placeId of await this.cacheIndex.getPlaceIds(club.id)) {
+      const { data } = await this.advancedCache.getWithFallback<Club[]>(
+        this.advancedCache.generateKey('clubs', placeId),
+        this.advancedCache.generateStaleKey('clubs', placeId),
+      );
+      const cached = data?.find((current) => current.id === club.id);
+      if (cached) {
+        return cached.openhours;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Reemplaza los datos estáticos de un club en `clubs:*` y `availability:*`
+   * sin modificar la disponibilidad de sus canchas
+   */
+  async refreshClub(club: Club): Promise<number> {
+    const [placeIds, dates] = await Promise.all([
+      this.cacheIndex.getPlaceIds(club.id),
+      this.cacheIndex.getCachedDates(club.id),
+    ]);
+    const keys = [
+      ...placeIds.flatMap((placeId) => [
+        this.advancedCache.generateKey('clubs', placeId),
+        this.advancedCache.generateStaleKey('clubs', placeId),
+      ]),
+      ...this.getAvailabilityKeys(placeIds, dates),
+    ];
+
+    const results = await Promise.all(
+      keys.map((key) =>
+        this.advancedCache.patch<Club[]>(key, (clubs) =>
+          replaceClub(clubs, club),
+        ),
+      ),
+    );
+
+    const patched = results.filter(Boolean).length;
+    this.logger.debug(`Refreshed club ${club.id} in ${patched} cache entries`);
+    return patched;
+  }
+
+  /**
+   * Recalcula la disponibilidad cacheada de un club con sus nuevos horarios.
+   * Si el horario de un día se amplió no es posible deducir los nuevos slots,
+   * por lo que las entradas de ese día se invalidan.
+   */
+  async applyOpenHours(
+    club: Club,
+    previous: OpenHours[] | null,
+  ): Promise<{ patched: number; invalidated: number }> {
+    const [courtIds, placeIds] = await Promise.all([
+      this.getCachedCourtIds(club.id),
+      this.cacheIndex.getPlaceIds(club.id),
+    ]);
+    let patched = 0;
+    let invalidated = 0;
+
+    for (const date of await this.cacheIndex.getCachedDates(club.id)) {
+      const dayOfWeek = moment(date, 'YYYY-MM-DD').day();
+      const hours = findOpenHours(club.openhours, dayOfWeek);
+      const slotsKeys = this.getSlotsKeys(club.id, courtIds, date);
+      const availabilityKeys = this.getAvailabilityKeys(placeIds, [date]);
+
+      if (
+        extendsOpenHours(hours, previous && findOpenHours(previous, dayOfWeek))
+      ) {
+        invalidated += await this.advancedCache.invalidate(
+          ...slotsKeys,
+          ...availabilityKeys,
+        );
+        continue;
+      }
+
+      const updater: SlotsUpdater = (slots) => withinOpenHours(slots, hours);
+      const results = await Promise.all([
+        ...slotsKeys.map((key) =>
+          this.advancedCache.patch<Slot[]>(key, updater),
+        ),
+        ...availabilityKeys.map((key) =>
+          this.advancedCache.patch<ClubWithAvailability[]>(key, (clubs) =>
+            patchCourtSlots(clubs, club.id, updater),
+          ),
+        ),
+      ]);
+      patched += results.filter(Boolean).length;
+    }
+
+    this.logger.debug(
+      `Applied open hours for club ${club.id}: ${patched} patched, ${invalidated} invalidated`,
+    );
+    return { patched, invalidated };
+  }
+
+  /**
+   * Invalida el detalle de una cancha y el listado de canchas de su club
+   */
+  async invalidateCourt(clubId: number, courtId: number): Promise<number> {
+    return this.advancedCache.invalidate(
+      this.advancedCache.generateKey('courts', clubId),
+      this.advancedCache.generateStaleKey('courts', clubId),
+      this.advancedCache.generateKey('court', clubId, courtId),
+      this.advancedCache.generateStaleKey('court', clubId, courtId),
+    );
+  }
+
+  /**
+   * Invalida la disponibilidad cacheada de un club cuando no es posible
+   * recalcularla
+   */
+  async invalidateClubAvailability(clubId: number): Promise<number> {
+    const [courtIds, placeIds, dates] = await Promise.all([
+      this.getCachedCourtIds(clubId),
+      this.cacheIndex.getPlaceIds(clubId),
+      this.cacheIndex.getCachedDates(clubId),
+    ]);
+    const keys = [
+      ...dates.flatMap((date) => this.getSlotsKeys(clubId, courtIds, date)),
+      ...this.getAvailabilityKeys(placeIds, dates),
+    ];
+    return this.advancedCache.invalidate(...keys);
+  }
+
+  private async patchSlots(
+    clubId: number,
+    courtId: number,
+    slot: Slot,
+    updater: SlotsUpdater,
+  ): Promise<number> {
+    const date = moment(slot.datetime, 'YYYY-MM-DD HH:mm').format('YYYY-MM-DD');
+
+    const slotsKeys = [
+      this.advancedCache.generateKey('slots', clubId, courtId, date),
+      this.advancedCache.generateStaleKey('slots', clubId, courtId, date),
+    ];
+    const placeIds = await this.cacheIndex.getPlaceIds(clubId);
+    const availabilityKeys = this.getAvailabilityKeys(placeIds, [date]);
+
+    const results = await Promise.all([
+      ...slotsKeys.map((key) => this.advancedCache.patch<Slot[]>(key, updater)),
+      ...availabilityKeys.map((key) =>
+        this.advancedCache.patch<ClubWithAvailability[]>(key, (clubs) =>
+          patchCourtSlots(clubs, clubId, updater, courtId),
+        ),
+      ),
+    ]);
+
+    const patched = results.filter(Boolean).length;
+    this.logger.debug(
+      `Patched ${patched} cache entries for club: ${clubId}, court: ${courtId}, date: ${date}`,
+    );
+    return patched;
+  }
+
+  private async getCachedCourtIds(clubId: number): Promise<number[]> {
+    const { data } = await this.advancedCache.getWithFallback<Court[]>(
+      this.advancedCache.generateKey('courts', clubId),
+      this.advancedCache.generateStaleKey('courts', clubId),
+    );
+    return data?.map((court) => court.id) ?? [];
+  }
+
+  private getSlotsKeys(
+    clubId: number,
+    courtIds: number[],
+    date: string,
+  ): string[] {
+    return courtIds.flatMap((courtId) => [
+      this.advancedCache.generateKey('slots', clubId, courtId, date),
+      this.advancedCache.generateStaleKey('slots', clubId, courtId, date),
+    ]);
+  }
+
+  private getAvailabilityKeys(placeIds: string[], dates: string[]): string[] {
+    return placeIds.flatMap((placeId) =>
+      dates.flatMap((date) => [
+        this.advancedCache.generateKey('availability', placeId, date),
+        this.advancedCache.generateStaleKey('availability', placeId, date),
+      ]),
+    );
+  }
+}
+
+function isSameSlot(a: Slot, b: Slot): boolean {
+  return a.datetime === b.datetime && a.duration === b.duration;
+}
+
+function compareSlots(a: Slot, b: Slot): number {
+  if (a.datetime !== b.datetime) {
+    return a.datetime < b.datetime ? -1 : 1;
+  }
+  return a.duration - b.duration;
+}
+
+function withoutSlot(slots: Slot[], slot: Slot): Slot[] | null {
+  const remaining = slots.filter((current) => !isSameSlot(current, slot));
+  return remaining.length === slots.length ? null : remaining;
+}
+
+function withSlot(slots: Slot[], slot: Slot): Slot[] | null {
+  if (slots.some((current) => isSameSlot(current, slot))) {
+    return null;
+  }
+  return [...slots, { ...slot }].sort(compareSlots);
+}
+
+function findOpenHours(
+  openhours: OpenHours[],
+  dayOfWeek: number,
+): OpenHours | undefined {
+  return openhours.find((hours) => hours.day_of_week === dayOfWeek);
+}
+
+function extendsOpenHours(
+  next: OpenHours | undefined,
+  previous: OpenHours | undefined | null,
+): boolean {
+  if (!next?.open) {
+    return false;
+  }
+  if (!previous?.open) {
+    return true;
+  }
+  return (
+    next.open_time < previous.open_time || next.close_time > previous.close_time
+  );
+}
+
+function isWithinOpenHours(slot: Slot, hours: OpenHours | undefined): boolean {
+  if (!hours?.open) {
+    return false;
+  }
+  const [hour, minute] = slot.start.split(':').map(Number);
+  const start = hour * 60 + minute;
+  return (
+    start >= hours.open_time * 60 &&
+    start + slot.duration <= hours.close_time * 60
+  );
+}
+
+function withinOpenHours(
+  slots: Slot[],
+  hours: OpenHours | undefined,
+): Slot[] | null {
+  const remaining = slots.filter((slot) => isWithinOpenHours(slot, hours));
+  return remaining.length === slots.length ? null : remaining;
+}
+
+function replaceClub<T extends Club>(clubs: T[], club: Club): T[] | null {
+  if (!clubs.some((current) => current.id === club.id)) {
+    return null;
+  }
+  return clubs.map((current) =>
+    current.id === club.id ? { ...current, ...club } : current,
+  );
+}
+
+function patchCourtSlots(
+  clubs: ClubWithAvailability[],
+  clubId: number,
+  updater: SlotsUpdater,
+  courtId?: number,
+): ClubWithAvailability[] | null {
+  let changed = false;
+
+  const patched = clubs.map((club) => {
+    if (club.id !== clubId) {
+      return club;
+    }
+    return {
+      ...club,
+      courts: club.courts.map((court) => {
+        if (courtId !== undefined && court.id !== courtId) {
+          return court;
+        }
+        const available = updater(court.available);
+        if (available === null) {
+          return court;
+        }
+        changed = true;
+        return { ...court, available };
+      }),
+    };
+  });
+
+  return changed ? patched : null;
+}
@@ -0,0 +1,153 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  endWith,
+  filter,
+  ignoreElements,
+  map,
+  Observable,
+  Subject,
+} from 'rxjs';
+
+import { Slot } from '../../domain/model';
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import { CacheIndexService } from './cache-index.service';
+
+export const AVAILABILITY_CHANNEL = 'availability:changes';
+
+export type AvailabilityChange =
+  | { type: 'slot_removed'; clubId: number; courtId: number; slot: Slot }
+  | { type: 'slot_added'; clubId: number; courtId: number; slot: Slot }
+  | {
+      type: 'court_updated';
+      clubId: number;
+      courtId: number;
+      fields: string[];
+    }
+  | { type: 'club_updated'; clubId: number; fields: string[] };
+
+interface ChangeMessage {
+  // Zonas en cuyos resultados aparece el club, según el índice del cache
+  placeIds: string[];
+  change: AvailabilityChange;
+}
+
+/**
+ * Difunde los cambios de disponibilidad a los clientes suscriptos por SSE:
+ * - Los cambios viajan por pub/sub del cache store, así llegan a los
+ *   clientes conectados a cualquier instancia
+ * - Cada suscripción recibe solo los cambios de su zona y fecha
+ * - Los cambios de clubs y canchas aplican a todas las fechas
+ * - Al apagar se completan los streams, así los clientes se reconectan
+ *   a otra instancia
+ */
+@Injectable()
+export class AvailabilityStreamService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(AvailabilityStreamService.name);
+  private readonly messages = new Subject<ChangeMessage>();
+
+  private metrics = {
+    subscribers: 0,
+    published: 0,
+    delivered: 0,
+  };
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly cacheIndex: CacheIndexService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.cacheStore.subscribe(AVAILABILITY_CHANNEL, (message) =>
+      this.onMessage(message),
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.messages.complete();
+  }
+
+  /**
+   * Publica un cambio para todas las instancias
+   */
+  async publish(change: AvailabilityChange): Promise<void> {
+    const message: ChangeMessage = {
+      placeIds: await this.cacheIndex.getPlaceIds(change.clubId),
+      change,
+    };
+    this.metrics.published++;
+
+    const published = await this.cacheStore.publish(
+      AVAILABILITY_CHANNEL,
+      JSON.stringify(message),
+    );
+    // Sin pub/sub, al menos se notifica a los clientes de esta instancia
+    if (!published) {
+      this.messages.next(message);
+    }
+  }
+
+  /**
+   * Cambios que afectan la disponibilidad de la zona en la fecha (YYYY-MM-DD)
+   */
+  watch(placeId: string, date: string): Observable<AvailabilityChange> {
+    return new Observable<AvailabilityChange>((subscriber) => {
+      this.metrics.subscribers++;
+      const subscription = this.messages
+        .pipe(
+          filter((message) => this.matches(message, placeId, date)),
+          map((message) => message.change),
+        )
+        .subscribe({
+          next: (change) => {
+            this.metrics.delivered++;
+            subscriber.next(change);
+          },
+          complete: () => subscriber.complete(),
+        });
+
+      return () => {
+        this.metrics.subscribers--;
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Emite una vez cuando el servicio se apaga, aunque ya se haya apagado
+   */
+  closed(): Observable<void> {
+    return this.messages.pipe(ignoreElements(), endWith(undefined));
+  }
+
+  getMetrics() {
+    return { ...this.metrics };
+  }
+
+  private matches(
+    { placeIds, change }: ChangeMessage,
+    placeId: string,
+    date: string,
+  ): boolean {
+    if (!placeIds.includes(placeId)) {
+      return false;
+    }
+    return 'slot' in change ? change.slot.datetime.startsWith(date) : true;
+  }
+
+  private onMessage(raw: string): void {
+    try {
+      this.messages.next(JSON.parse(raw));
+    } catch (error) {
+      this.logger.warn(`Ignoring malformed availability change: ${raw}`);
+    }
+  }
+}
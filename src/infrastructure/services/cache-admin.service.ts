@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { GetAvailabilityHandler } from '../../domain/handlers/get-availability.handler';
+import { AdvancedCacheService, CacheEntryInfo } from './advanced-cache.service';
+import { AvailabilityPatcherService } from './availability-patcher.service';
+import { UpstreamSchedulerService } from './upstream-scheduler.service';
+
+export interface InvalidationFilter {
+  clubId?: number;
+  courtId?: number;
+  placeId?: string;
+  date?: Date;
+}
+
+/**
+ * Operaciones manuales sobre el cache para cuando queda desincronizado:
+ * - Inspeccionar una clave (y su copia desactualizada)
+ * - Invalidar por club, cancha, zona o fecha
+ * - Refrescar la disponibilidad de una zona y fecha desde la API
+ * - Vaciar todas las claves de cache; el log de eventos, la deduplicación
+ *   y el rate limit comparten Redis, por eso no se usa `flushDb`
+ */
+@Injectable()
+export class CacheAdminService {
+  private readonly logger = new Logger(CacheAdminService.name);
+
+  constructor(
+    private readonly advancedCache: AdvancedCacheService,
+    private readonly availabilityPatcher: AvailabilityPatcherService,
+    private readonly availabilityHandler: GetAvailabilityHandler,
+    private readonly scheduler: UpstreamSchedulerService,
+  ) {}
+
+  inspect(key: string): Promise<CacheEntryInfo> {
+    return this.advancedCache.inspect(key);
+  }
+
+  /**
+   * Invalida las claves que corresponden al filtro.
+   * Devuelve la cantidad de claves eliminadas.
+   */
+  async invalidate(filter: InvalidationFilter): Promise<number> {
+    let invalidated = 0;
+    const { clubId, courtId, placeId, date } = filter;
+
+    if (clubId !== undefined) {
+      // La disponibilidad primero: se ubica a partir del listado de canchas
+      invalidated += await this.availabilityPatcher.invalidateClubAvailability(
+        clubId,
+      );
+      invalidated +=
+        courtId !== undefined
+          ? await this.availabilityPatcher.invalidateCourt(clubId, courtId)
+          : await this.advancedCache.invalidate(
+              this.advancedCache.generateKey('club', clubId),
+              this.advancedCache.generateStaleKey('club', clubId),
+              this.advancedCache.generateKey('courts', clubId),
+              this.advancedCache.generateStaleKey('courts', clubId),
+            );
+    }
+
+    if (placeId !== undefined) {
+      invalidated += await this.availabilityHandler.invalidateCacheForPlace(
+        placeId,
+        date,
+      );
+      if (!date) {
+        invalidated += await this.advancedCache.invalidate(
+          this.advancedCache.generateKey('clubs', placeId),
+          this.advancedCache.generateStaleKey('clubs', placeId),
+        );
+      }
+    }
+
+    this.logger.log(
+      `Admin invalidation ${JSON.stringify(filter)}: ${invalidated} keys`,
+    );
+    return invalidated;
+  }
+
+  async invalidateAll(): Promise<number> {
+    const invalidated = await this.advancedCache.invalidateAll();
+    this.logger.warn(`Admin invalidated the whole cache: ${invalidated} keys`);
+    return invalidated;
+  }
+
+  /**
+   * Vuelve a consultar la API para la zona y fecha, y devuelve la entrada
+   * resultante
+   */
+  async refresh(placeId: string, date: Date): Promise<CacheEntryInfo> {
+    await this.scheduler.runWithPriority('refresh', () =>
+      this.availabilityHandler.refreshAvailability(placeId, date),
+    );
+    this.logger.log(
+      `Admin refreshed availability for ${placeId} ${formatDate(date)}`,
+    );
+    return this.advancedCache.inspect(
+      this.advancedCache.generateKey('availability', placeId, formatDate(date)),
+    );
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,78 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+
+/**
+ * Índice inverso de lo que hay cacheado, persistido en el cache store:
+ * - clubId -> placeIds en los que aparece el club
+ * - clubId (+ courtId) -> fechas con slots cacheados
+ *
+ * Permite que los eventos invaliden exactamente las entradas
+ * `availability:*` afectadas, para cualquier zona y fecha cacheada.
+ */
+@Injectable()
+export class CacheIndexService {
+  private readonly logger = new Logger(CacheIndexService.name);
+
+  // Igual al TTL de los datos desactualizados, la entrada más longeva
+  private readonly INDEX_TTL = 7200;
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+  ) {}
+
+  /**
+   * Registra los clubs cacheados para una zona
+   */
+  async registerClubs(placeId: string, clubIds: number[]): Promise<void> {
+    await Promise.all(
+      clubIds.map((clubId) =>
+        this.cacheStore.sadd(this.placesKey(clubId), [placeId], this.INDEX_TTL),
+      ),
+    );
+    this.logger.debug(`Indexed ${clubIds.length} clubs for place: ${placeId}`);
+  }
+
+  /**
+   * Registra la fecha de slots cacheados para una cancha
+   */
+  async registerSlots(
+    clubId: number,
+    courtId: number,
+    date: string,
+  ): Promise<void> {
+    await Promise.all([
+      this.cacheStore.sadd(
+        this.datesKey(clubId, courtId),
+        [date],
+        this.INDEX_TTL,
+      ),
+      this.cacheStore.sadd(this.datesKey(clubId), [date], this.INDEX_TTL),
+    ]);
+  }
+
+  async getPlaceIds(clubId: number): Promise<string[]> {
+    return this.cacheStore.smembers(this.placesKey(clubId));
+  }
+
+  /**
+   * Fechas cacheadas de un club, o de una cancha si se especifica
+   */
+  async getCachedDates(clubId: number, courtId?: number): Promise<string[]> {
+    const dates = await this.cacheStore.smembers(
+      this.datesKey(clubId, courtId),
+    );
+    return dates.sort();
+  }
+
+  private placesKey(clubId: number): string {
+    return `index:club-places:${clubId}`;
+  }
+
+  private datesKey(clubId: number, courtId?: number): string {
+    return courtId === undefined
+      ? `index:club-dates:${clubId}`
+      : `index:court-dates:${clubId}:${courtId}`;
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QueryBus } from '@nestjs/cqrs';
+import * as moment from 'moment';
+
+import { GetZonesQuery } from '../../domain/commands/get-zones.query';
+import { GetAvailabilityHandler } from '../../domain/handlers/get-availability.handler';
+import { Zone } from '../../domain/model';
+import { AdvancedCacheService } from './advanced-cache.service';
+import { QueryStatsService } from './query-stats.service';
+import { RateLimiterService } from './rate-limiter.service';
+import {
+  RequestDroppedError,
+  UpstreamSchedulerService,
+} from './upstream-scheduler.service';
+
+interface WarmupTarget {
+  placeId: string;
+  date: Date;
+  score: number;
+}
+
+/**
+ * Precalienta periódicamente el cache de disponibilidad:
+ * - Recorre el catálogo de zonas (`GET /zones`) y los próximos N días
+ * - Prioriza por frecuencia reciente de consultas (zona y fecha)
+ * - Omite lo que ya está cacheado y es reciente
+ * - Corre con prioridad `warmup` y se detiene al agotar su parte del
+ *   rate limit de la ventana
+ */
+@Injectable()
+export class CacheWarmerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CacheWarmerService.name);
+
+  private readonly enabled: boolean;
+  private readonly intervalMs: number;
+  private readonly initialDelayMs: number;
+  private readonly days: number;
+  private readonly budgetRatio: number;
+  // Antigüedad (en segundos) a partir de la cual se vuelve a precalentar
+  private readonly maxAge: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private metrics = {
+    runs: 0,
+    warmed: 0,
+    skippedFresh: 0,
+    failed: 0,
+    budgetExhausted: 0,
+    lastRunAt: null as string | null,
+    lastRunDurationMs: 0,
+    lastRunRequests: 0,
+  };
+
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly availabilityHandler: GetAvailabilityHandler,
+    private readonly advancedCache: AdvancedCacheService,
+    private readonly queryStats: QueryStatsService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly scheduler: UpstreamSchedulerService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      String(this.configService.get('CACHE_WARMUP_ENABLED', true)) === 'true';
+    this.intervalMs = this.getNumber('CACHE_WARMUP_INTERVAL_MS', 300000);
+    this.initialDelayMs = this.getNumber(
+      'CACHE_WARMUP_INITIAL_DELAY_MS',
+      10000,
+    );
+    this.days = this.getNumber('CACHE_WARMUP_DAYS', 2);
+    this.budgetRatio = this.getNumber('CACHE_WARMUP_BUDGET_RATIO', 0.25);
+    this.maxAge = this.getNumber('CACHE_WARMUP_MAX_AGE', 60);
+  }
+
+  onModuleInit(): void {
+    if (!this.enabled) {
+      this.logger.log('Cache warmup disabled');
+      return;
+    }
+    this.schedule(this.initialDelayMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Ejecuta una pasada de precalentamiento. Devuelve cuántas
+   * combinaciones de zona y fecha se cachearon.
+   */
+  async warmup(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    const startTime = Date.now();
+    const budget = this.getRunBudget();
+    const dispatchedBefore = this.getWarmupDispatched();
+    let warmed = 0;
+
+    try {
+      const targets = await this.getTargets();
+      for (const target of targets) {
+        const spent = this.getWarmupDispatched() - dispatchedBefore;
+        if (spent >= budget) {
+          this.metrics.budgetExhausted++;
+          this.logger.debug(`Warmup budget of ${budget} requests exhausted`);
+          break;
+        }
+
+        if (await this.isFresh(target)) {
+          this.metrics.skippedFresh++;
+          continue;
+        }
+
+        try {
+          await this.scheduler.runWithPriority('warmup', () =>
+            this.availabilityHandler.refreshAvailability(
+              target.placeId,
+              target.date,
+            ),
+          );
+          warmed++;
+        } catch (error) {
+          this.metrics.failed++;
+          if (error instanceof RequestDroppedError) {
+            this.logger.debug('Stopping warmup: rate budget is tight');
+            break;
+          }
+          this.logger.warn(
+            `Warmup failed for ${target.placeId}: ${error.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.metrics.failed++;
+      this.logger.warn(`Warmup could not list zones: ${error.message}`);
+    } finally {
+      this.running = false;
+      this.metrics.runs++;
+      this.metrics.warmed += warmed;
+      this.metrics.lastRunAt = new Date(startTime).toISOString();
+      this.metrics.lastRunDurationMs = Date.now() - startTime;
+      this.metrics.lastRunRequests =
+        this.getWarmupDispatched() - dispatchedBefore;
+    }
+
+    this.logger.log(
+      `Warmup cached ${warmed} zone/date pairs in ${this.metrics.lastRunDurationMs}ms`,
+    );
+    return warmed;
+  }
+
+  getMetrics() {
+    return {
+      ...this.metrics,
+      enabled: this.enabled,
+      running: this.running,
+      intervalMs: this.intervalMs,
+      days: this.days,
+      budgetPerRun: this.getRunBudget(),
+    };
+  }
+
+  /**
+   * Zonas y fechas a precalentar, de la más a la menos consultada
+   */
+  private async getTargets(): Promise<WarmupTarget[]> {
+    const zones: Zone[] = await this.scheduler.runWithPriority('warmup', () =>
+      this.queryBus.execute(new GetZonesQuery()),
+    );
+
+    const targets: WarmupTarget[] = [];
+    zones.forEach((zone) => {
+      const zoneScore = this.queryStats.getScore(zone.placeid);
+      for (let offset = 0; offset < this.days; offset++) {
+        const date = moment().startOf('day').add(offset, 'days').toDate();
+        const dateScore = this.queryStats.getScore(
+          zone.placeid,
+          date.toISOString().split('T')[0],
+        );
+        // La fecha pesa más que la zona; a igual puntaje, primero lo más próximo
+        targets.push({
+          placeId: zone.placeid,
+          date,
+          score: dateScore * 2 + zoneScore - offset / (this.days + 1),
+        });
+      }
+    });
+
+    return targets.sort((a, b) => b.score - a.score);
+  }
+
+  private async isFresh(target: WarmupTarget): Promise<boolean> {
+    const dateKey = target.date.toISOString().split('T')[0];
+    const { data, isStale, age } = await this.advancedCache.getWithAge(
+      this.advancedCache.generateKey('availability', target.placeId, dateKey),
+    );
+    return data !== null && !isStale && age < this.maxAge;
+  }
+
+  /**
+   * Requests upstream que una pasada puede usar: una fracción de lo que
+   * el rate limit repone en el intervalo entre pasadas
+   */
+  private getRunBudget(): number {
+    return Math.floor(
+      this.budgetRatio *
+        this.rateLimiter.getRefillPerMinute() *
+        (this.intervalMs / 60000),
+    );
+  }
+
+  private getWarmupDispatched(): number {
+    return this.scheduler.getMetrics().warmup.dispatched;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.warmup();
+      } finally {
+        // Sin timer es porque el módulo se destruyó durante la pasada
+        if (this.timer) {
+          this.schedule(this.intervalMs);
+        }
+      }
+    }, delay);
+    this.timer.unref();
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this.configService.get<number>(key, defaultValue));
+  }
+}
@@ -1,43 +1,101 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { TracingService } from './tracing.service';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerPolicy {
+  failureThreshold: number; // Fallos consecutivos para abrir
+  failureRateThreshold: number; // Tasa de fallos en la ventana para abrir (0-1)
+  minimumRequests: number; // Requests en la ventana antes de evaluar la tasa
+  windowMs: number; // Ventana deslizante de resultados
+  openTimeoutMs: number; // Tiempo en OPEN antes de intentar recuperación
+  successThreshold: number; // Éxitos en HALF_OPEN para cerrar
+}
+
+const DEFAULT_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  failureRateThreshold: 0.5,
+  minimumRequests: 10,
+  windowMs: 60000,
+  openTimeoutMs: 60000,
+  successThreshold: 3,
+};
+
+// Variable de entorno de cada campo, con prefijo CIRCUIT_BREAKER_[OPERACION_]
+const POLICY_KEYS: Record<keyof CircuitBreakerPolicy, string> = {
+  failureThreshold: 'FAILURE_THRESHOLD',
+  failureRateThreshold: 'FAILURE_RATE_THRESHOLD',
+  minimumRequests: 'MINIMUM_REQUESTS',
+  windowMs: 'WINDOW_MS',
+  openTimeoutMs: 'OPEN_TIMEOUT_MS',
+  successThreshold: 'SUCCESS_THRESHOLD',
+};
 
 /**
  * Circuit Breaker para manejar fallos de la API mock
- * 
+ *
  * Estados:
  * - CLOSED: Funcionamiento normal
  * - OPEN: API fallando, usar cache
  * - HALF_OPEN: Probando si la API se recuperó
+ *
+ * Abre tras `failureThreshold` fallos consecutivos o cuando la tasa de
+ * fallos de la ventana deslizante supera `failureRateThreshold`.
  */
-@Injectable()
-export class CircuitBreakerService {
-  private readonly logger = new Logger(CircuitBreakerService.name);
-  
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
+export class CircuitBreaker {
+  private readonly logger: Logger;
+
+  private state: CircuitState = 'CLOSED';
   private failureCount = 0;
+  private halfOpenSuccesses = 0;
   private lastFailureTime = 0;
-  
-  // Configuración del circuit breaker
-  private readonly FAILURE_THRESHOLD = 5; // Fallos consecutivos para abrir
-  private readonly TIMEOUT = 60000; // 1 minuto para intentar recuperación
-  private readonly SUCCESS_THRESHOLD = 3; // Éxitos para cerrar
+  private outcomes: { at: number; failed: boolean }[] = [];
+
+  constructor(
+    readonly name: string,
+    readonly policy: CircuitBreakerPolicy,
+    private readonly tracing: TracingService,
+  ) {
+    this.logger = new Logger(`${CircuitBreaker.name}:${name}`);
+  }
 
   /**
-   * Ejecuta una operación con circuit breaker
+   * Ejecuta una operación con circuit breaker.
+   * `isFailure` permite excluir errores que no indican una API caída (ej. 429)
    */
-  async execute<T>(
+  execute<T>(
+    operation: () => Promise<T>,
+    fallback?: () => Promise<T>,
+    isFailure: (error: unknown) => boolean = () => true,
+  ): Promise<T> {
+    return this.tracing.trace(
+      'circuit-breaker',
+      { breaker: this.name, state: this.state },
+      () => this.run(operation, fallback, isFailure),
+    );
+  }
+
+  private async run<T>(
     operation: () => Promise<T>,
-    fallback?: () => Promise<T>
+    fallback: (() => Promise<T>) | undefined,
+    isFailure: (error: unknown) => boolean,
   ): Promise<T> {
     if (this.state === 'OPEN') {
       if (this.shouldAttemptReset()) {
         this.state = 'HALF_OPEN';
+        this.halfOpenSuccesses = 0;
         this.logger.log('Circuit breaker entering HALF_OPEN state');
       } else {
         this.logger.warn('Circuit breaker is OPEN, using fallback');
         if (fallback) {
+          this.tracing.annotate({ fallback: true });
           return fallback();
         }
-        throw new Error('Circuit breaker is OPEN and no fallback provided');
+        throw new Error(
+          `Circuit breaker ${this.name} is OPEN and no fallback provided`,
+        );
       }
     }
 
@@ -46,63 +104,208 @@ export class CircuitBreakerService {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (isFailure(error)) {
+        this.onFailure();
+      }
       this.logger.error(`Operation failed: ${error.message}`);
-      
+
       if (fallback) {
         this.logger.log('Using fallback due to operation failure');
+        this.tracing.annotate({ fallback: true });
         return fallback();
       }
       throw error;
     }
   }
 
-  /**
-   * Verifica si el circuit breaker está abierto
-   */
   isOpen(): boolean {
     return this.state === 'OPEN';
   }
 
-  /**
-   * Obtiene el estado actual del circuit breaker
-   */
-  getState(): string {
+  getState(): CircuitState {
     return this.state;
   }
 
-  /**
-   * Obtiene métricas del circuit breaker
-   */
   getMetrics() {
+    const { requests, failures } = this.getWindowStats();
     return {
       state: this.state,
       failureCount: this.failureCount,
       lastFailureTime: this.lastFailureTime,
-      timeSinceLastFailure: Date.now() - this.lastFailureTime
+      timeSinceLastFailure: Date.now() - this.lastFailureTime,
+      window: {
+        requests,
+        failures,
+        failureRate: requests > 0 ? failures / requests : 0,
+      },
+      policy: this.policy,
     };
   }
 
   private onSuccess(): void {
     this.failureCount = 0;
-    
+    this.record(false);
+
     if (this.state === 'HALF_OPEN') {
-      this.state = 'CLOSED';
-      this.logger.log('Circuit breaker CLOSED after successful recovery');
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.policy.successThreshold) {
+        this.state = 'CLOSED';
+        this.outcomes = [];
+        this.logger.log('Circuit breaker CLOSED after successful recovery');
+      }
     }
   }
 
   private onFailure(): void {
     this.failureCount++;
     this.lastFailureTime = Date.now();
+    this.record(true);
+
+    if (this.state === 'HALF_OPEN') {
+      this.open('failed while HALF_OPEN');
+      return;
+    }
 
-    if (this.failureCount >= this.FAILURE_THRESHOLD) {
-      this.state = 'OPEN';
-      this.logger.warn(`Circuit breaker OPENED after ${this.failureCount} failures`);
+    const { requests, failures } = this.getWindowStats();
+    if (this.failureCount >= this.policy.failureThreshold) {
+      this.open(`${this.failureCount} consecutive failures`);
+    } else if (
+      requests >= this.policy.minimumRequests &&
+      failures / requests >= this.policy.failureRateThreshold
+    ) {
+      this.open(`${failures}/${requests} failures in window`);
     }
   }
 
+  private open(reason: string): void {
+    if (this.state !== 'OPEN') {
+      this.logger.warn(`Circuit breaker OPENED after ${reason}`);
+    }
+    this.state = 'OPEN';
+  }
+
+  private record(failed: boolean): void {
+    this.outcomes.push({ at: Date.now(), failed });
+  }
+
+  private getWindowStats(): { requests: number; failures: number } {
+    const since = Date.now() - this.policy.windowMs;
+    this.outcomes = this.outcomes.filter((outcome) => outcome.at > since);
+    return {
+      requests: this.outcomes.length,
+      failures: this.outcomes.filter((outcome) => outcome.failed).length,
+    };
+  }
+
   private shouldAttemptReset(): boolean {
-    return Date.now() - this.lastFailureTime >= this.TIMEOUT;
+    return Date.now() - this.lastFailureTime >= this.policy.openTimeoutMs;
+  }
+}
+
+/**
+ * Registro de circuit breakers por operación upstream:
+ * - Cada operación (`clubs`, `courts`, `slots`...) tiene su propio breaker,
+ *   así una falla en un endpoint no corta los demás
+ * - Con `CIRCUIT_BREAKER_PER_CLUB=true` se separan además por club
+ * - Políticas configurables por operación, ej. `CIRCUIT_BREAKER_SLOTS_FAILURE_THRESHOLD`,
+ *   con `CIRCUIT_BREAKER_FAILURE_THRESHOLD` como valor general
+ */
+@Injectable()
+export class CircuitBreakerService {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly perClub: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly tracing: TracingService,
+  ) {
+    this.perClub =
+      String(this.configService.get('CIRCUIT_BREAKER_PER_CLUB', false)) ===
+      'true';
+  }
+
+  /**
+   * Breaker de una operación, creado con su política la primera vez
+   */
+  get(operation: string, clubId?: number): CircuitBreaker {
+    const name =
+      this.perClub && clubId !== undefined
+        ? `${operation}:${clubId}`
+        : operation;
+
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        name,
+        this.getPolicy(operation),
+        this.tracing,
+      );
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Ejecuta una operación con el breaker por defecto
+   */
+  execute<T>(
+    operation: () => Promise<T>,
+    fallback?: () => Promise<T>,
+    isFailure?: (error: unknown) => boolean,
+  ): Promise<T> {
+    return this.get('default').execute(operation, fallback, isFailure);
+  }
+
+  isOpen(): boolean {
+    return this.get('default').isOpen();
+  }
+
+  getState(): CircuitState {
+    return this.get('default').getState();
+  }
+
+  getMetrics() {
+    return this.get('default').getMetrics();
+  }
+
+  /**
+   * Métricas de todos los breakers creados, por nombre
+   */
+  getAllMetrics() {
+    return Object.fromEntries(
+      [...this.breakers.values()].map((breaker) => [
+        breaker.name,
+        breaker.getMetrics(),
+      ]),
+    );
+  }
+
+  getStates(): Record<string, CircuitState> {
+    return Object.fromEntries(
+      [...this.breakers.values()].map((breaker) => [
+        breaker.name,
+        breaker.getState(),
+      ]),
+    );
+  }
+
+  private getPolicy(operation: string): CircuitBreakerPolicy {
+    const policy = { ...DEFAULT_POLICY };
+    (Object.keys(POLICY_KEYS) as (keyof CircuitBreakerPolicy)[]).forEach(
+      (field) => {
+        const key = POLICY_KEYS[field];
+        const general = this.configService.get<number>(
+          `CIRCUIT_BREAKER_${key}`,
+          DEFAULT_POLICY[field],
+        );
+        policy[field] = Number(
+          this.configService.get<number>(
+            `CIRCUIT_BREAKER_${operation.toUpperCase()}_${key}`,
+            general,
+          ),
+        );
+      },
+    );
+    return policy;
   }
 }
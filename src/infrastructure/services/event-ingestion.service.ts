@@ -0,0 +1,536 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventBus } from '@nestjs/cqrs';
+import { createHash } from 'crypto';
+
+import {
+  ClubUpdatedEvent,
+  CourtUpdatedEvent,
+  SlotAvailableEvent,
+  SlotBookedEvent,
+} from '../../domain/events';
+import { GetAvailabilityHandler } from '../../domain/handlers/get-availability.handler';
+import { Club } from '../../domain/model';
+import {
+  ALQUILA_TU_CANCHA_CLIENT,
+  AlquilaTuCanchaClient,
+} from '../../domain/ports/aquila-tu-cancha.client';
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import {
+  EVENT_LOG,
+  EventLog,
+  EventLogEntry,
+} from '../../domain/ports/event-log';
+import { AdvancedCacheService } from './advanced-cache.service';
+import { AvailabilityPatcherService } from './availability-patcher.service';
+import { CacheIndexService } from './cache-index.service';
+import { ExternalEventDTO, ExternalEventSchema } from './external-event.schema';
+import { PrometheusService } from './prometheus.service';
+
+export interface IngestResult {
+  id: string | null;
+  duplicate: boolean;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  failed: { id: string; reason: string }[];
+}
+
+// Una reserva y su cancelación se anulan: al llegar una, la otra deja de ser duplicada
+const INVERSE_TYPES: Partial<
+  Record<ExternalEventDTO['type'], ExternalEventDTO['type']>
+> = {
+  booking_created: 'booking_cancelled',
+  booking_cancelled: 'booking_created',
+};
+
+/**
+ * Ingesta durable de los eventos del webhook:
+ * - El evento se persiste en el log antes de responder; si no se puede
+ *   persistir el webhook recibe un error para que lo reintente
+ * - Deduplica por `id` del evento o, sin él, por hash del contenido
+ * - Un consumidor procesa el log en orden de llegada por club (clubs
+ *   distintos en paralelo), así una cancelación nunca se adelanta a su reserva
+ * - Reintentos con backoff exponencial; agotados, el evento pasa a la cola
+ *   de eventos fallidos
+ * - Los eventos del historial del log se pueden volver a aplicar (`replay`)
+ */
+@Injectable()
+export class EventIngestionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventIngestionService.name);
+
+  private readonly DEDUP_PREFIX = 'events:seen';
+
+  private readonly dedupTtl: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly batchSize: number;
+  private readonly blockMs: number;
+
+  private consuming = false;
+  private consumer: Promise<void> | null = null;
+
+  private metrics = {
+    received: 0,
+    duplicates: 0,
+    rejected: 0,
+    processed: 0,
+    retries: 0,
+    deadLettered: 0,
+    replayed: 0,
+    invalidatedKeys: 0,
+    byType: {} as Record<string, number>,
+    lastProcessed: null as Date | null,
+  };
+
+  constructor(
+    @Inject(EVENT_LOG)
+    private readonly eventLog: EventLog,
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly eventBus: EventBus,
+    private readonly advancedCache: AdvancedCacheService,
+    private readonly availabilityPatcher: AvailabilityPatcherService,
+    private readonly cacheIndex: CacheIndexService,
+    private readonly availabilityHandler: GetAvailabilityHandler,
+    @Inject(ALQUILA_TU_CANCHA_CLIENT)
+    private readonly client: AlquilaTuCanchaClient,
+    private readonly configService: ConfigService,
+    private readonly prometheus: PrometheusService,
+  ) {
+    this.dedupTtl = this.getNumber('EVENT_DEDUP_TTL', 600);
+    this.maxAttempts = this.getNumber('EVENT_MAX_ATTEMPTS', 5);
+    this.retryBaseDelayMs = this.getNumber('EVENT_RETRY_BASE_DELAY_MS', 500);
+    this.batchSize = this.getNumber('EVENT_BATCH_SIZE', 50);
+    this.blockMs = this.getNumber('EVENT_READ_BLOCK_MS', 2000);
+  }
+
+  onModuleInit(): void {
+    this.consuming = true;
+    this.consumer = this.consume();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.consuming = false;
+    await this.consumer;
+    await this.eventLog.close();
+  }
+
+  /**
+   * Persiste el evento para procesarlo en background. Rechaza si el log
+   * no está disponible
+   */
+  async ingest(externalEvent: ExternalEventDTO): Promise<IngestResult> {
+    const event = ExternalEventSchema.parse(externalEvent);
+    const dedupKey = this.getDedupKey(event);
+
+    if (!(await this.cacheStore.setIfAbsent(dedupKey, '1', this.dedupTtl))) {
+      this.metrics.duplicates++;
+      this.prometheus.events.inc({ type: event.type, outcome: 'duplicate' });
+      this.logger.debug({
+        msg: 'Skipping duplicate event',
+        ...this.logFields(event),
+      });
+      return { id: null, duplicate: true };
+    }
+
+    let id: string;
+    try {
+      id = await this.eventLog.append(JSON.stringify(event));
+    } catch (error) {
+      this.metrics.rejected++;
+      // Sin persistir no cuenta como visto: el reintento del webhook debe entrar
+      await this.cacheStore.unlink([dedupKey]);
+      throw error;
+    }
+
+    const inverse = INVERSE_TYPES[event.type];
+    if (inverse && !event.id) {
+      await this.cacheStore.unlink([
+        this.getDedupKey({ ...event, type: inverse } as ExternalEventDTO),
+      ]);
+    }
+
+    this.metrics.received++;
+    this.prometheus.events.inc({ type: event.type, outcome: 'received' });
+    return { id, duplicate: false };
+  }
+
+  /**
+   * Procesa la próxima tanda de entradas del log. Devuelve cuántas se
+   * procesaron (con éxito o hacia la cola de eventos fallidos)
+   */
+  async processNext(blockMs = this.blockMs): Promise<number> {
+    const entries = await this.eventLog.read(this.batchSize, blockMs);
+
+    const byClub = new Map<number, [EventLogEntry, ExternalEventDTO][]>();
+    for (const entry of entries) {
+      const event = this.parse(entry);
+      if (!event) {
+        await this.deadLetter(entry, 'unknown', 'Malformed event payload', 0);
+        continue;
+      }
+      byClub.set(event.clubId, [
+        ...(byClub.get(event.clubId) ?? []),
+        [entry, event],
+      ]);
+    }
+
+    // Se espera a todos los clubs antes de propagar un error del log, para
+    // no volver a leer entradas que todavía se están procesando
+    const results = await Promise.allSettled(
+      [...byClub.values()].map(async (events) => {
+        for (const [entry, event] of events) {
+          await this.processEntry(entry, event);
+        }
+      }),
+    );
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
+    if (failure) {
+      throw failure.reason;
+    }
+    return entries.length;
+  }
+
+  /**
+   * Vuelve a aplicar los eventos recibidos desde `since` (hasta `until`),
+   * en orden de llegada. No pasan por la deduplicación ni por la cola de
+   * eventos fallidos: un evento que falla solo se cuenta
+   */
+  async replay(since: Date, until?: Date, limit = 1000): Promise<ReplayResult> {
+    const entries = await this.eventLog.history(since, until, limit);
+    const result: ReplayResult = { replayed: 0, failed: [] };
+
+    for (const entry of entries) {
+      const event = this.parse(entry);
+      try {
+        if (!event) {
+          throw new Error('Malformed event payload');
+        }
+        await this.handleWithRetries(entry, event);
+        result.replayed++;
+        this.prometheus.events.inc({ type: event.type, outcome: 'replayed' });
+      } catch (error) {
+        result.failed.push({ id: entry.id, reason: error.message });
+      }
+    }
+
+    this.metrics.replayed += result.replayed;
+    this.logger.log(
+      `Replayed ${result.replayed} events since ${since.toISOString()}, ${
+        result.failed.length
+      } failed`,
+    );
+    return result;
+  }
+
+  getMetrics() {
+    const handled = this.metrics.processed + this.metrics.deadLettered;
+    return {
+      ...this.metrics,
+      successRate:
+        handled > 0
+          ? ((this.metrics.processed / handled) * 100).toFixed(2) + '%'
+          : '0%',
+      log: this.eventLog.getMetrics(),
+    };
+  }
+
+  private async consume(): Promise<void> {
+    while (this.consuming) {
+      try {
+        await this.processNext();
+      } catch (error) {
+        this.logger.error(`Event log unavailable: ${error.message}`);
+        await this.sleep(this.blockMs);
+      }
+    }
+  }
+
+  private async processEntry(
+    entry: EventLogEntry,
+    event: ExternalEventDTO,
+  ): Promise<void> {
+    const startTime = Date.now();
+    try {
+      await this.handleWithRetries(entry, event);
+    } catch (error) {
+      await this.deadLetter(entry, event.type, error.message, this.maxAttempts);
+      return;
+    }
+
+    await this.eventLog.ack(entry.id);
+    // Las actualizaciones son idempotentes: sin id, se libera su marca para
+    // no descartar una actualización posterior con el mismo contenido
+    if (!event.id && !INVERSE_TYPES[event.type]) {
+      await this.cacheStore.unlink([this.getDedupKey(event)]);
+    }
+
+    this.metrics.processed++;
+    this.prometheus.events.inc({ type: event.type, outcome: 'processed' });
+    this.metrics.byType[event.type] =
+      (this.metrics.byType[event.type] ?? 0) + 1;
+    this.metrics.lastProcessed = new Date();
+    this.logger.log({
+      msg: 'Processed event',
+      eventId: entry.id,
+      ...this.logFields(event),
+      durationMs: Date.now() - startTime,
+    });
+  }
+
+  /**
+   * Reintenta con backoff exponencial; rechaza con el último error
+   */
+  private async handleWithRetries(
+    entry: EventLogEntry,
+    event: ExternalEventDTO,
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.handle(event);
+      } catch (error) {
+        if (attempt >= this.maxAttempts) {
+          throw error;
+        }
+        this.metrics.retries++;
+        this.logger.warn({
+          msg: `Event failed on attempt ${attempt}: ${error.message}`,
+          eventId: entry.id,
+          ...this.logFields(event),
+          attempt,
+        });
+        await this.sleep(this.retryBaseDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Aplica el evento sobre el cache y recién entonces lo publica, así
+   * un reintento no vuelve a notificar a los handlers del dominio.
+   * Los handlers solo notifican: el cache se actualiza acá, en orden por club
+   */
+  private async handle(event: ExternalEventDTO): Promise<void> {
+    this.metrics.invalidatedKeys += await this.applyToCache(event);
+    this.eventBus.publish(this.createEventFromExternal(event));
+  }
+
+  private async deadLetter(
+    entry: EventLogEntry,
+    type: string,
+    reason: string,
+    attempts: number,
+  ): Promise<void> {
+    await this.eventLog.deadLetter({
+      ...entry,
+      reason,
+      attempts,
+      failedAt: new Date().toISOString(),
+    });
+    this.metrics.deadLettered++;
+    this.prometheus.events.inc({ type, outcome: 'dead_lettered' });
+    this.logger.error({
+      msg: `Event moved to dead letters after ${attempts} attempts: ${reason}`,
+      eventId: entry.id,
+      eventType: type,
+      attempts,
+    });
+  }
+
+  private logFields(event: ExternalEventDTO) {
+    return {
+      eventType: event.type,
+      clubId: event.clubId,
+      ...('courtId' in event && { courtId: event.courtId }),
+    };
+  }
+
+  private parse(entry: EventLogEntry): ExternalEventDTO | null {
+    try {
+      return ExternalEventSchema.parse(JSON.parse(entry.payload));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private createEventFromExternal(externalEvent: ExternalEventDTO) {
+    switch (externalEvent.type) {
+      case 'booking_created':
+        return new SlotBookedEvent(
+          externalEvent.clubId,
+          externalEvent.courtId,
+          externalEvent.slot,
+        );
+
+      case 'booking_cancelled':
+        return new SlotAvailableEvent(
+          externalEvent.clubId,
+          externalEvent.courtId,
+          externalEvent.slot,
+        );
+
+      case 'club_updated':
+        return new ClubUpdatedEvent(externalEvent.clubId, externalEvent.fields);
+
+      case 'court_updated':
+        return new CourtUpdatedEvent(
+          externalEvent.clubId,
+          externalEvent.courtId,
+          externalEvent.fields,
+        );
+    }
+  }
+
+  /**
+   * Devuelve la cantidad de claves invalidadas
+   */
+  private async applyToCache(event: ExternalEventDTO): Promise<number> {
+    const { clubId } = event;
+
+    switch (event.type) {
+      case 'club_updated':
+        return this.updateClub(clubId, event.fields);
+
+      case 'court_updated':
+        return (
+          (await this.availabilityPatcher.invalidateCourt(
+            clubId,
+            event.courtId,
+          )) + (await this.invalidateAvailabilityCache(clubId))
+        );
+
+      // Las reservas se aplican sobre el cache sin volver a consultar la API
+      case 'booking_created':
+        await this.availabilityPatcher.removeSlot(
+          clubId,
+          event.courtId,
+          event.slot,
+        );
+        return 0;
+
+      case 'booking_cancelled':
+        await this.availabilityPatcher.restoreSlot(
+          clubId,
+          event.courtId,
+          event.slot,
+        );
+        return 0;
+    }
+  }
+
+  /**
+   * Refresca el club según los campos modificados:
+   * - `attributes`, `logo_url` y `background_url` solo refrescan datos estáticos
+   * - `openhours` además recalcula la disponibilidad cacheada del club
+   * Si la API no responde y cambiaron los horarios, se invalida la
+   * disponibilidad del club en lugar de reintentar
+   */
+  private async updateClub(
+    clubId: number,
+    fields: ClubUpdatedEvent['fields'],
+  ): Promise<number> {
+    if (fields.length === 0) {
+      return 0;
+    }
+    const affectsAvailability = fields.includes('openhours');
+
+    let club: Club;
+    try {
+      club = await this.client.getClub(clubId);
+    } catch (error) {
+      if (!affectsAvailability) {
+        throw error;
+      }
+      this.logger.warn({
+        msg: `Could not refresh club: ${error.message}`,
+        clubId,
+      });
+      return this.availabilityPatcher.invalidateClubAvailability(clubId);
+    }
+
+    const previousOpenHours = affectsAvailability
+      ? await this.availabilityPatcher.getCachedOpenHours(club)
+      : null;
+    await this.availabilityPatcher.refreshClub(club);
+    if (!affectsAvailability) {
+      return 0;
+    }
+
+    const { invalidated } = await this.availabilityPatcher.applyOpenHours(
+      club,
+      previousOpenHours,
+    );
+    return invalidated;
+  }
+
+  /**
+   * Invalida las entradas `availability:*` de las zonas y fechas
+   * en las que el club está cacheado según el índice
+   */
+  private async invalidateAvailabilityCache(clubId: number): Promise<number> {
+    const [placeIds, dates] = await Promise.all([
+      this.cacheIndex.getPlaceIds(clubId),
+      this.cacheIndex.getCachedDates(clubId),
+    ]);
+
+    const results = await Promise.all(
+      placeIds.flatMap((placeId) =>
+        dates.map((date) =>
+          this.availabilityHandler.invalidateCacheForPlace(
+            placeId,
+            new Date(date),
+          ),
+        ),
+      ),
+    );
+    return results.reduce((total, count) => total + count, 0);
+  }
+
+  private getDedupKey(event: ExternalEventDTO): string {
+    if (event.id) {
+      return `${this.DEDUP_PREFIX}:id:${event.id}`;
+    }
+    const hash = createHash('sha256')
+      .update(canonicalJson(event))
+      .digest('hex');
+    return `${this.DEDUP_PREFIX}:${hash}`;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => setTimeout(() => resolve(), ms));
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this.configService.get<number>(key, defaultValue));
+  }
+}
+
+/**
+ * JSON con las claves ordenadas, para que el hash no dependa del orden
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key],
+          )}`,
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,50 @@
+import { z } from 'nestjs-zod/z';
+
+const SlotSchema = z.object({
+  price: z.number(),
+  duration: z.number(),
+  datetime: z.string(),
+  start: z.string(),
+  end: z.string(),
+  _priority: z.number(),
+});
+
+// Id opcional del emisor; sin él se deduplica por contenido
+const EventIdSchema = z.string().min(1).max(200).optional();
+
+/**
+ * Eventos que la API publica por webhook en `POST /events`
+ */
+export const ExternalEventSchema = z.union([
+  z.object({
+    id: EventIdSchema,
+    type: z.literal('booking_cancelled'),
+    clubId: z.number().int(),
+    courtId: z.number().int(),
+    slot: SlotSchema,
+  }),
+  z.object({
+    id: EventIdSchema,
+    type: z.literal('booking_created'),
+    clubId: z.number().int(),
+    courtId: z.number().int(),
+    slot: SlotSchema,
+  }),
+  z.object({
+    id: EventIdSchema,
+    type: z.literal('club_updated'),
+    clubId: z.number().int(),
+    fields: z.array(
+      z.enum(['attributes', 'openhours', 'logo_url', 'background_url']),
+    ),
+  }),
+  z.object({
+    id: EventIdSchema,
+    type: z.literal('court_updated'),
+    clubId: z.number().int(),
+    courtId: z.number().int(),
+    fields: z.array(z.enum(['attributes', 'name'])),
+  }),
+]);
+
+export type ExternalEventDTO = z.infer<typeof ExternalEventSchema>;
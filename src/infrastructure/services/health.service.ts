@@ -0,0 +1,65 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import { CircuitBreakerService, CircuitState } from './circuit-breaker.service';
+
+export interface HealthReport {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  ready: boolean;
+  checks: {
+    cacheStore: 'healthy' | 'unhealthy';
+    api: 'healthy' | 'degraded';
+    circuitBreakers: Record<string, CircuitState>;
+    shuttingDown: boolean;
+  };
+  timestamp: string;
+}
+
+/**
+ * Estado del servicio para las sondas de readiness y el monitoreo:
+ * - Sin Redis o sin la API el servicio sigue respondiendo (degradado):
+ *   está listo mientras pueda servir desde el cache o consultar la API
+ * - Deja de estar listo apenas empieza el apagado, así el balanceador
+ *   no le manda requests nuevos mientras drena los que tiene
+ */
+@Injectable()
+export class HealthService implements OnModuleDestroy {
+  private readonly logger = new Logger(HealthService.name);
+  private shuttingDown = false;
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly circuitBreaker: CircuitBreakerService,
+  ) {}
+
+  onModuleDestroy(): void {
+    this.shuttingDown = true;
+    this.logger.log('Shutting down: reporting not ready');
+  }
+
+  getReport(): HealthReport {
+    const cacheStoreHealthy = this.cacheStore.isHealthy();
+    const circuitBreakers = this.circuitBreaker.getStates();
+    const apiHealthy = Object.values(circuitBreakers).every(
+      (state) => state !== 'OPEN',
+    );
+
+    return {
+      status:
+        cacheStoreHealthy && apiHealthy
+          ? 'healthy'
+          : cacheStoreHealthy || apiHealthy
+          ? 'degraded'
+          : 'unhealthy',
+      ready: !this.shuttingDown && (cacheStoreHealthy || apiHealthy),
+      checks: {
+        cacheStore: cacheStoreHealthy ? 'healthy' : 'unhealthy',
+        api: apiHealthy ? 'healthy' : 'degraded',
+        circuitBreakers,
+        shuttingDown: this.shuttingDown,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
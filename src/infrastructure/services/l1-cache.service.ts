@@ -0,0 +1,169 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import { globToRegExp } from '../clients/in-memory-cache.service';
+
+export interface L1Entry<T = unknown> {
+  data: T;
+  // Momento en que el dato se obtuvo de la API, para calcular su antigüedad
+  cachedAt: number;
+  expiresAt: number;
+}
+
+export const INVALIDATION_CHANNEL = 'cache:invalidations';
+
+interface InvalidationMessage {
+  origin: string;
+  keys?: string[];
+  pattern?: string;
+}
+
+/**
+ * Cache L1 en memoria del proceso, delante del cache store (L2):
+ * - Guarda los datos ya deserializados para evitar el JSON.parse en cada hit
+ * - TTL corto y cantidad máxima de entradas con desalojo LRU
+ * - Coherencia entre instancias vía mensajes de invalidación pub/sub
+ */
+@Injectable()
+export class L1CacheService implements OnModuleInit {
+  private readonly logger = new Logger(L1CacheService.name);
+  private readonly entries = new Map<string, L1Entry>();
+
+  // Identifica los mensajes propios para no procesarlos dos veces
+  private readonly instanceId = randomUUID();
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+
+  private metrics = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    remoteInvalidations: 0,
+  };
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttl = Number(this.configService.get<number>('L1_CACHE_TTL', 5));
+    this.maxEntries = Number(
+      this.configService.get<number>('L1_CACHE_MAX_ENTRIES', 500),
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.cacheStore.subscribe(INVALIDATION_CHANNEL, (message) =>
+      this.onInvalidation(message),
+    );
+  }
+
+  get<T>(key: string): T | null {
+    return this.getEntry<T>(key)?.data ?? null;
+  }
+
+  getEntry<T>(key: string): L1Entry<T> | null {
+    const entry = this.entries.get(key) as L1Entry<T> | undefined;
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.metrics.misses++;
+      return null;
+    }
+
+    // Reinsertar para mantener el orden LRU
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.metrics.hits++;
+    return entry;
+  }
+
+  /**
+   * Indica si la clave está vigente, sin afectar el orden LRU ni las métricas
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return entry !== undefined && entry.expiresAt > Date.now();
+  }
+
+  set<T>(key: string, data: T, cachedAt = Date.now()): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      data,
+      cachedAt,
+      expiresAt: Date.now() + this.ttl * 1000,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+      this.metrics.evictions++;
+    }
+  }
+
+  /**
+   * Descarta las claves localmente y avisa al resto de las instancias
+   */
+  async evict(...keys: string[]): Promise<void> {
+    this.evictLocal(keys);
+    await this.broadcast({ origin: this.instanceId, keys });
+  }
+
+  /**
+   * Descarta las claves que coinciden con el patrón y avisa al resto
+   */
+  async evictByPattern(pattern: string): Promise<void> {
+    this.evictLocalByPattern(pattern);
+    await this.broadcast({ origin: this.instanceId, pattern });
+  }
+
+  getMetrics() {
+    return {
+      ...this.metrics,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttl: this.ttl,
+    };
+  }
+
+  private onInvalidation(raw: string): void {
+    try {
+      const message: InvalidationMessage = JSON.parse(raw);
+      if (message.origin === this.instanceId) {
+        return;
+      }
+
+      this.metrics.remoteInvalidations++;
+      if (message.keys) {
+        this.evictLocal(message.keys);
+      }
+      if (message.pattern) {
+        this.evictLocalByPattern(message.pattern);
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring malformed invalidation message: ${raw}`);
+    }
+  }
+
+  private evictLocal(keys: string[]): void {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  private evictLocalByPattern(pattern: string): void {
+    const matcher = globToRegExp(pattern);
+    [...this.entries.keys()]
+      .filter((key) => matcher.test(key))
+      .forEach((key) => this.entries.delete(key));
+  }
+
+  private async broadcast(message: InvalidationMessage): Promise<void> {
+    try {
+      await this.cacheStore.publish(
+        INVALIDATION_CHANNEL,
+        JSON.stringify(message),
+      );
+    } catch (error) {
+      this.logger.error('Error broadcasting L1 invalidation:', error);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable } from '@nestjs/common';
+
+type Labels<L extends string> = Record<L, string | number>;
+
+// Buckets por defecto, en segundos (mismos que el cliente oficial de Prometheus)
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter<L extends string = string> implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: readonly L[],
+  ) {}
+
+  inc(labels: Labels<L>, value = 1): void {
+    const key = serializeLabels(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(
+        ([labels, value]) => `${this.name}${wrap(labels)} ${value}`,
+      ),
+    ];
+  }
+}
+
+export class Histogram<L extends string = string> implements Metric {
+  private readonly series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: readonly L[],
+    private readonly buckets: readonly number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels<L>, value: number): void {
+    const key = serializeLabels(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const { counts } = series;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    this.series.forEach(({ counts, sum, count }, labels) => {
+      const prefix = labels ? `${labels},` : '';
+      this.buckets.forEach((bound, index) =>
+        lines.push(
+          `${this.name}_bucket{${prefix}le="${bound}"} ${counts[index]}`,
+        ),
+      );
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${count}`);
+      lines.push(`${this.name}_sum${wrap(labels)} ${sum}`);
+      lines.push(`${this.name}_count${wrap(labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * Registro de métricas en el formato de exposición de texto de Prometheus
+ * (`GET /metrics/prometheus`):
+ * - Latencia de `/search` según el resultado del cache
+ * - Latencia y status de las llamadas a la API por endpoint
+ * - Lecturas del cache por tipo de clave, para calcular el hit ratio
+ * - Eventos por tipo y resultado
+ * - Espera por el rate limit de la API
+ *
+ * Los valores viven en memoria de cada instancia: Prometheus agrega
+ * las instancias al consultar.
+ */
+@Injectable()
+export class PrometheusService {
+  private readonly metrics: Metric[] = [];
+
+  readonly searchDuration = this.register(
+    new Histogram(
+      'search_request_duration_seconds',
+      'Availability search latency by cache outcome',
+      ['outcome'] as const,
+    ),
+  );
+
+  readonly upstreamDuration = this.register(
+    new Histogram(
+      'upstream_request_duration_seconds',
+      'Upstream API call latency by endpoint and response status',
+      ['endpoint', 'status'] as const,
+    ),
+  );
+
+  readonly cacheLookups = this.register(
+    new Counter(
+      'cache_lookups_total',
+      'Cache reads by key type and result (hit, stale or miss)',
+      ['type', 'result'] as const,
+    ),
+  );
+
+  readonly events = this.register(
+    new Counter('events_total', 'Webhook events by type and outcome', [
+      'type',
+      'outcome',
+    ] as const),
+  );
+
+  readonly rateLimitWait = this.register(
+    new Histogram(
+      'upstream_rate_limit_wait_seconds',
+      'Time spent waiting for upstream rate limit tokens',
+      ['endpoint'] as const,
+      [0, 0.1, 0.5, 1, 2.5, 5, 10, 30],
+    ),
+  );
+
+  readonly rateLimitRejections = this.register(
+    new Counter(
+      'upstream_rate_limit_rejections_total',
+      'Upstream requests rejected because the rate limit wait was too long',
+      ['endpoint'] as const,
+    ),
+  );
+
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function serializeLabels<L extends string>(
+  names: readonly L[],
+  labels: Labels<L>,
+): string {
+  return names
+    .map((name) => `${name}="${escapeLabel(String(labels[name]))}"`)
+    .join(',');
+}
+
+function wrap(labels: string): string {
+  return labels ? `{${labels}}` : '';
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+interface Score {
+  value: number;
+  updatedAt: number;
+}
+
+/**
+ * Frecuencia reciente de consultas de disponibilidad por zona y fecha:
+ * - Puntaje con decaimiento exponencial, para que pese lo consultado hace poco
+ * - Cantidad máxima de entradas, descartando las de menor puntaje
+ *
+ * Lo usa el cache warmer para decidir qué precalentar primero.
+ */
+@Injectable()
+export class QueryStatsService {
+  private readonly zones = new Map<string, Score>();
+  private readonly dates = new Map<string, Score>();
+
+  private readonly halfLifeMs: number;
+  private readonly maxEntries: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.halfLifeMs = Number(
+      this.configService.get<number>('QUERY_STATS_HALF_LIFE_MS', 3600000),
+    );
+    this.maxEntries = Number(
+      this.configService.get<number>('QUERY_STATS_MAX_ENTRIES', 1000),
+    );
+  }
+
+  /**
+   * Registra una consulta para la zona y fecha (YYYY-MM-DD)
+   */
+  record(placeId: string, date: string): void {
+    this.increment(this.zones, placeId);
+    this.increment(this.dates, `${placeId}:${date}`);
+  }
+
+  /**
+   * Puntaje de la zona, o de la zona en una fecha si se indica
+   */
+  getScore(placeId: string, date?: string): number {
+    const score = date
+      ? this.dates.get(`${placeId}:${date}`)
+      : this.zones.get(placeId);
+    return score ? this.decay(score, Date.now()) : 0;
+  }
+
+  getMetrics() {
+    const now = Date.now();
+    const top = [...this.zones.entries()]
+      .map(([placeId, score]) => ({ placeId, score: this.decay(score, now) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 10);
+
+    return {
+      trackedZones: this.zones.size,
+      trackedDates: this.dates.size,
+      topZones: top,
+    };
+  }
+
+  private increment(scores: Map<string, Score>, key: string): void {
+    const now = Date.now();
+    const current = scores.get(key);
+    scores.set(key, {
+      value: (current ? this.decay(current, now) : 0) + 1,
+      updatedAt: now,
+    });
+
+    if (scores.size > this.maxEntries) {
+      this.evictLowest(scores, now);
+    }
+  }
+
+  private evictLowest(scores: Map<string, Score>, now: number): void {
+    let lowestKey: string | null = null;
+    let lowest = Infinity;
+    scores.forEach((score, key) => {
+      const value = this.decay(score, now);
+      if (value < lowest) {
+        lowest = value;
+        lowestKey = key;
+      }
+    });
+    if (lowestKey !== null) {
+      scores.delete(lowestKey);
+    }
+  }
+
+  private decay(score: Score, now: number): number {
+    return score.value * 0.5 ** ((now - score.updatedAt) / this.halfLifeMs);
+  }
+}
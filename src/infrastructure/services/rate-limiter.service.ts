@@ -0,0 +1,317 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosError } from 'axios';
+
+import { CACHE_STORE, CacheStore } from '../../domain/ports/cache-store';
+import { PrometheusService } from './prometheus.service';
+
+export type UpstreamEndpoint = 'zones' | 'clubs' | 'courts' | 'slots';
+
+export class RateLimitExceededError extends Error {
+  constructor(readonly endpoint: UpstreamEndpoint, readonly waitMs: number) {
+    super(
+      `Rate limit budget exhausted for ${endpoint}, next token in ${waitMs}ms`,
+    );
+    this.name = RateLimitExceededError.name;
+  }
+}
+
+// Devuelve { espera en ms (0 si se otorgó), tokens restantes }.
+// Usa la hora de Redis para que todas las instancias compartan el mismo reloj.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + (now - updatedAt) * refill)
+local wait = 0
+if tokens >= cost then
+  tokens = tokens - cost
+else
+  wait = math.ceil((cost - tokens) / refill)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill) * 2)
+return { wait, math.floor(tokens) }
+`;
+
+// Deja el bucket en negativo: ningún token se otorga hasta saldar la deuda
+const DRAIN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('HSET', KEYS[1], 'tokens', tostring(-tonumber(ARGV[1])), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[2]))
+return 1
+`;
+
+/**
+ * Errores que indican falta de cupo en la API, no una falla del servicio
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return (
+    error instanceof RateLimitExceededError ||
+    (error instanceof AxiosError && error.response?.status === 429)
+  );
+}
+
+/**
+ * Convierte un header `Retry-After` (segundos o fecha HTTP) a milisegundos
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Token bucket local, usado cuando Redis no está disponible
+ */
+class LocalTokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMs: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  take(cost: number): { wait: number; tokens: number } {
+    this.refill();
+    if (this.tokens >= cost) {
+      this.tokens -= cost;
+      return { wait: 0, tokens: Math.floor(this.tokens) };
+    }
+    return {
+      wait: Math.ceil((cost - this.tokens) / this.refillPerMs),
+      tokens: Math.floor(this.tokens),
+    };
+  }
+
+  available(): number {
+    this.refill();
+    return Math.max(0, Math.floor(this.tokens));
+  }
+
+  drain(debt: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, -debt);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.refillPerMs,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Rate limiter de la API upstream con token bucket distribuido:
+ * - El bucket vive en el almacenamiento compartido (Redis) y lo usan todas
+ *   las instancias, si el backend ejecuta scripts (`CacheStore.eval`)
+ * - Fallback a un bucket en memoria si no hay backend compartido o no responde
+ * - Costo configurable por endpoint
+ * - Los requests esperan en cola hasta un máximo antes de rechazarse
+ * - Ante un 429 el bucket se vacía hasta que pase el `Retry-After`
+ *
+ * La API permite 60 requests en cualquier ventana de 60s, y un bucket
+ * admite hasta `capacity + refill por minuto` en ese lapso: por eso los
+ * valores por defecto suman 60.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly logger = new Logger(RateLimiterService.name);
+
+  private readonly BUCKET_KEY = 'ratelimit:upstream';
+
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly maxWaitMs: number;
+  // Ventana de la API upstream, usada cuando un 429 no trae Retry-After
+  private readonly windowMs: number;
+  private readonly costs: Record<UpstreamEndpoint, number>;
+  private readonly localBucket: LocalTokenBucket;
+
+  // Cola FIFO para que los requests de esta instancia esperen en orden
+  private queue: Promise<void> = Promise.resolve();
+  // Última lectura del bucket compartido (negativa tras un 429) y su momento
+  private lastKnownTokens: number;
+  private lastKnownAt = Date.now();
+
+  private metrics = {
+    acquired: 0,
+    delayed: 0,
+    rejected: 0,
+    backOffs: 0,
+    totalWaitMs: 0,
+    backend: 'memory' as 'redis' | 'memory',
+  };
+
+  constructor(
+    @Inject(CACHE_STORE)
+    private readonly cacheStore: CacheStore,
+    private readonly configService: ConfigService,
+    private readonly prometheus: PrometheusService,
+  ) {
+    this.capacity = this.getNumber('RATE_LIMIT_CAPACITY', 20);
+    this.refillPerMs =
+      this.getNumber('RATE_LIMIT_REFILL_PER_MINUTE', 40) / 60000;
+    this.maxWaitMs = this.getNumber('RATE_LIMIT_MAX_WAIT_MS', 10000);
+    this.windowMs = this.getNumber('RATE_LIMIT_WINDOW_MS', 60000);
+    this.costs = {
+      zones: this.getNumber('RATE_LIMIT_COST_ZONES', 1),
+      clubs: this.getNumber('RATE_LIMIT_COST_CLUBS', 1),
+      courts: this.getNumber('RATE_LIMIT_COST_COURTS', 1),
+      slots: this.getNumber('RATE_LIMIT_COST_SLOTS', 1),
+    };
+    this.localBucket = new LocalTokenBucket(this.capacity, this.refillPerMs);
+    this.lastKnownTokens = this.capacity;
+  }
+
+  /**
+   * Espera hasta obtener los tokens del endpoint, o rechaza con
+   * RateLimitExceededError si la espera superaría el máximo configurado
+   */
+  acquire(endpoint: UpstreamEndpoint): Promise<void> {
+    const startTime = Date.now();
+    const acquisition = this.queue.then(() =>
+      this.waitForTokens(endpoint, startTime),
+    );
+    this.queue = acquisition.catch(() => undefined);
+    return acquisition;
+  }
+
+  /**
+   * Frena a todas las instancias tras un 429: no se otorgan tokens
+   * hasta que pase `retryAfterMs` (por defecto, la ventana de la API)
+   */
+  async backOff(retryAfterMs = this.windowMs): Promise<void> {
+    const debt = retryAfterMs * this.refillPerMs;
+    this.metrics.backOffs++;
+    this.rememberTokens(-debt);
+    this.logger.warn(`Upstream rate limited, backing off ${retryAfterMs}ms`);
+
+    if (this.cacheStore.eval) {
+      const ttl = Math.ceil((this.capacity + debt) / this.refillPerMs) * 2;
+      const result = await this.cacheStore.eval(
+        DRAIN_SCRIPT,
+        [this.BUCKET_KEY],
+        [debt, ttl],
+      );
+      if (result !== null) {
+        this.metrics.backend = 'redis';
+        return;
+      }
+    }
+    this.metrics.backend = 'memory';
+    this.localBucket.drain(debt);
+  }
+
+  /**
+   * Tokens disponibles. Con el bucket compartido es una estimación: la última
+   * lectura más lo recargado desde entonces, sin consultar al almacenamiento.
+   */
+  getAvailableTokens(): number {
+    if (this.metrics.backend === 'memory') {
+      return this.localBucket.available();
+    }
+
+    const refilled =
+      this.lastKnownTokens + (Date.now() - this.lastKnownAt) * this.refillPerMs;
+    return Math.max(0, Math.floor(Math.min(this.capacity, refilled)));
+  }
+
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  getRefillPerMinute(): number {
+    return this.refillPerMs * 60000;
+  }
+
+  getMetrics() {
+    return {
+      ...this.metrics,
+      availableTokens: this.getAvailableTokens(),
+      capacity: this.capacity,
+      refillPerMinute: this.getRefillPerMinute(),
+      maxWaitMs: this.maxWaitMs,
+      costs: this.costs,
+    };
+  }
+
+  private async waitForTokens(
+    endpoint: UpstreamEndpoint,
+    startTime: number,
+  ): Promise<void> {
+    const cost = this.costs[endpoint];
+
+    for (;;) {
+      const { wait, tokens } = await this.take(cost);
+      this.rememberTokens(tokens);
+
+      if (wait === 0) {
+        const waited = Date.now() - startTime;
+        this.metrics.acquired++;
+        this.prometheus.rateLimitWait.observe({ endpoint }, waited / 1000);
+        if (waited > 0) {
+          this.metrics.delayed++;
+          this.metrics.totalWaitMs += waited;
+        }
+        return;
+      }
+
+      if (Date.now() - startTime + wait > this.maxWaitMs) {
+        this.metrics.rejected++;
+        this.prometheus.rateLimitRejections.inc({ endpoint });
+        this.logger.warn(`Rate limit budget exhausted for ${endpoint}`);
+        throw new RateLimitExceededError(endpoint, wait);
+      }
+
+      this.logger.debug(`Waiting ${wait}ms for ${endpoint} rate limit tokens`);
+      await new Promise<void>((resolve) => setTimeout(() => resolve(), wait));
+    }
+  }
+
+  private async take(cost: number): Promise<{ wait: number; tokens: number }> {
+    if (this.cacheStore.eval) {
+      const result = await this.cacheStore.eval(
+        TOKEN_BUCKET_SCRIPT,
+        [this.BUCKET_KEY],
+        [this.capacity, this.refillPerMs, cost],
+      );
+      if (Array.isArray(result)) {
+        this.metrics.backend = 'redis';
+        return { wait: Number(result[0]), tokens: Number(result[1]) };
+      }
+    }
+
+    this.metrics.backend = 'memory';
+    return this.localBucket.take(cost);
+  }
+
+  private rememberTokens(tokens: number): void {
+    this.lastKnownTokens = tokens;
+    this.lastKnownAt = Date.now();
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this.configService.get<number>(key, defaultValue));
+  }
+}
@@ -1,11 +1,11 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
 
 /**
  * Servicio de batching para evitar requests duplicados
  * Agrupa requests similares y los ejecuta en lotes
  */
 @Injectable()
-export class RequestBatcherService {
+export class RequestBatcherService implements OnApplicationShutdown {
   private readonly logger = new Logger(RequestBatcherService.name);
   
   // Mapas para almacenar requests pendientes
@@ -87,6 +87,10 @@ export class RequestBatcherService {
     return results;
   }
 
+  onApplicationShutdown(): void {
+    this.cleanup();
+  }
+
   /**
    * Limpia timers y requests pendientes
    */
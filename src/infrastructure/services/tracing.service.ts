@@ -0,0 +1,171 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+import {
+  SPAN_EXPORTER,
+  SpanAttributes,
+  SpanExporter,
+} from '../../domain/ports/span-exporter';
+
+/**
+ * Span en curso. `end` es idempotente: solo la primera llamada se exporta
+ */
+export class ActiveSpan {
+  readonly spanId = randomBytes(8).toString('hex');
+  private readonly startedAt = Date.now();
+  private ended = false;
+
+  constructor(
+    readonly traceId: string,
+    readonly parentId: string | null,
+    readonly name: string,
+    private readonly attributes: SpanAttributes,
+    private readonly exporter: SpanExporter,
+    private readonly logger: Logger,
+  ) {}
+
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  end(error?: unknown): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    this.exporter
+      .export({
+        traceId: this.traceId,
+        spanId: this.spanId,
+        parentId: this.parentId,
+        name: this.name,
+        startTime: new Date(this.startedAt).toISOString(),
+        durationMs: Date.now() - this.startedAt,
+        status: error === undefined ? 'ok' : 'error',
+        ...(error !== undefined && {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+        attributes: { ...this.attributes },
+      })
+      .catch((exportError: Error) =>
+        this.logger.warn(`Could not export span: ${exportError.message}`),
+      );
+  }
+}
+
+interface TraceContext {
+  traceId: string;
+  sampled: boolean;
+  span: ActiveSpan | null;
+}
+
+/**
+ * Trazas de cada request con spans de las operaciones que lo componen
+ * (handler, cache, circuit breaker, rate limit y llamadas a la API):
+ * - El id de la traza es el request id, que se propaga por contexto
+ *   asíncrono sin pasarlo por cada llamada
+ * - Fuera de una traza (warmup, eventos) las operaciones no se registran
+ * - `TRACE_SAMPLE_RATE` (0 a 1) define qué fracción de las trazas se exporta;
+ *   el request id se propaga igual
+ */
+@Injectable()
+export class TracingService implements OnApplicationShutdown {
+  private readonly logger = new Logger(TracingService.name);
+  private readonly context = new AsyncLocalStorage<TraceContext>();
+
+  private readonly sampleRate: number;
+
+  constructor(
+    @Inject(SPAN_EXPORTER)
+    private readonly exporter: SpanExporter,
+    private readonly configService: ConfigService,
+  ) {
+    this.sampleRate = Number(
+      this.configService.get<number>('TRACE_SAMPLE_RATE', 1),
+    );
+  }
+
+  // Al final del apagado, para exportar los spans de los requests drenados
+  async onApplicationShutdown(): Promise<void> {
+    await this.exporter.close();
+  }
+
+  /**
+   * Ejecuta `fn` dentro de una traza nueva
+   */
+  startTrace<T>(traceId: string, fn: () => T): T {
+    const sampled = Math.random() < this.sampleRate;
+    return this.context.run({ traceId, sampled, span: null }, fn);
+  }
+
+  getTraceId(): string | undefined {
+    return this.context.getStore()?.traceId;
+  }
+
+  /**
+   * Abre un span hijo del actual. Devuelve null fuera de una traza
+   * o si la traza no se muestrea
+   */
+  startSpan(name: string, attributes: SpanAttributes = {}): ActiveSpan | null {
+    const trace = this.context.getStore();
+    if (!trace?.sampled) {
+      return null;
+    }
+    return new ActiveSpan(
+      trace.traceId,
+      trace.span?.spanId ?? null,
+      name,
+      { ...attributes },
+      this.exporter,
+      this.logger,
+    );
+  }
+
+  /**
+   * Ejecuta `fn` con `span` como span actual
+   */
+  runInSpan<T>(span: ActiveSpan, fn: () => T): T {
+    const trace = this.context.getStore() as TraceContext;
+    return this.context.run({ ...trace, span }, fn);
+  }
+
+  /**
+   * Registra la operación como span, con su duración y su error si falla
+   */
+  async trace<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes);
+    if (!span) {
+      return fn();
+    }
+
+    return this.runInSpan(span, async () => {
+      try {
+        const result = await fn();
+        span.end();
+        return result;
+      } catch (error) {
+        span.end(error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Agrega atributos al span actual, si lo hay
+   */
+  annotate(attributes: SpanAttributes): void {
+    this.context.getStore()?.span?.setAttributes(attributes);
+  }
+}
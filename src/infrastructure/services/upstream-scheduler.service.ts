@@ -0,0 +1,312 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { RateLimiterService } from './rate-limiter.service';
+
+export type RequestPriority = 'interactive' | 'refresh' | 'prefetch' | 'warmup';
+
+export class RequestDroppedError extends Error {
+  constructor(
+    readonly key: string,
+    readonly priority: RequestPriority,
+    reason = 'rate budget is tight',
+  ) {
+    super(`Dropped ${priority} request for ${key}: ${reason}`);
+    this.name = RequestDroppedError.name;
+  }
+}
+
+interface PriorityPolicy {
+  // Fracción de la capacidad del bucket que debe quedar libre para despachar
+  minTokensRatio: number;
+  maxQueue: number;
+  maxDeferMs: number;
+  concurrency: number;
+}
+
+interface Job {
+  key: string;
+  priority: RequestPriority;
+  task: () => Promise<unknown>;
+  enqueuedAt: number;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  promise: Promise<unknown>;
+}
+
+// De mayor a menor prioridad
+const PRIORITIES: RequestPriority[] = [
+  'interactive',
+  'refresh',
+  'prefetch',
+  'warmup',
+];
+
+// Prioridades que se siguen despachando mientras el servicio se apaga
+const DRAINED_ON_SHUTDOWN = new Set<RequestPriority>([
+  'interactive',
+  'refresh',
+]);
+
+const POLICIES: Record<RequestPriority, PriorityPolicy> = {
+  interactive: {
+    minTokensRatio: 0,
+    maxQueue: Infinity,
+    maxDeferMs: Infinity,
+    concurrency: Infinity,
+  },
+  refresh: {
+    minTokensRatio: 0.25,
+    maxQueue: 50,
+    maxDeferMs: 30000,
+    concurrency: 2,
+  },
+  prefetch: {
+    minTokensRatio: 0.5,
+    maxQueue: 100,
+    maxDeferMs: 10000,
+    concurrency: 2,
+  },
+  warmup: {
+    minTokensRatio: 0.75,
+    maxQueue: 200,
+    maxDeferMs: 60000,
+    concurrency: 1,
+  },
+};
+
+/**
+ * Scheduler de requests a la API upstream por clase de prioridad:
+ * - `interactive` (búsquedas de usuarios) se despacha siempre
+ * - `refresh`, `prefetch` y `warmup` esperan a que haya margen en el
+ *   rate limit, y se descartan si esperan demasiado o la cola se llena
+ * - Un request encolado se promueve si alguien más prioritario lo pide
+ *
+ * La prioridad se propaga por contexto asíncrono con `runWithPriority`,
+ * sin tener que pasarla por cada llamada al cliente.
+ */
+@Injectable()
+export class UpstreamSchedulerService implements OnModuleDestroy {
+  private readonly logger = new Logger(UpstreamSchedulerService.name);
+  private readonly context = new AsyncLocalStorage<RequestPriority>();
+
+  // Cada cuánto se reevalúan los requests diferidos
+  private readonly PUMP_INTERVAL = 250;
+
+  private readonly queues = new Map<RequestPriority, Job[]>(
+    PRIORITIES.map((priority) => [priority, []]),
+  );
+  private readonly queuedByKey = new Map<string, Job>();
+  private readonly running = new Map<RequestPriority, number>(
+    PRIORITIES.map((priority) => [priority, 0]),
+  );
+  private pumpTimer: NodeJS.Timeout | null = null;
+  private readonly drainTimeoutMs: number;
+  // Momento en que se descartan los refrescos pendientes, una vez apagando
+  private shutdownDeadline: number | null = null;
+
+  private metrics = Object.fromEntries(
+    PRIORITIES.map((priority) => [priority, { dispatched: 0, dropped: 0 }]),
+  ) as Record<RequestPriority, { dispatched: number; dropped: number }>;
+
+  constructor(
+    private readonly rateLimiter: RateLimiterService,
+    private readonly configService: ConfigService,
+  ) {
+    this.drainTimeoutMs = Number(
+      this.configService.get<number>('SHUTDOWN_DRAIN_TIMEOUT_MS', 10000),
+    );
+  }
+
+  /**
+   * Ejecuta `fn` con la prioridad indicada para todos los requests
+   * upstream que se hagan dentro de ella
+   */
+  runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+    return this.context.run(priority, fn);
+  }
+
+  getCurrentPriority(): RequestPriority {
+    return this.context.getStore() ?? 'interactive';
+  }
+
+  /**
+   * Encola un request upstream. Si ya hay uno encolado con la misma clave
+   * se reutiliza, promoviéndolo si el nuevo pedido es más prioritario.
+   */
+  schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const priority = this.getCurrentPriority();
+
+    const queued = this.queuedByKey.get(key);
+    if (queued) {
+      if (rank(priority) < rank(queued.priority)) {
+        this.move(queued, priority);
+      }
+      return queued.promise as Promise<T>;
+    }
+
+    if (this.shutdownDeadline !== null && !DRAINED_ON_SHUTDOWN.has(priority)) {
+      this.metrics[priority].dropped++;
+      return Promise.reject(
+        new RequestDroppedError(key, priority, 'shutting down'),
+      );
+    }
+
+    const queue = this.queues.get(priority) as Job[];
+    if (queue.length >= POLICIES[priority].maxQueue) {
+      this.metrics[priority].dropped++;
+      return Promise.reject(new RequestDroppedError(key, priority));
+    }
+
+    const job = { key, priority, task, enqueuedAt: Date.now() } as Job;
+    job.promise = new Promise<unknown>((resolve, reject) => {
+      job.resolve = resolve;
+      job.reject = reject;
+    });
+    queue.push(job);
+    this.queuedByKey.set(key, job);
+    this.pump();
+    return job.promise as Promise<T>;
+  }
+
+  getMetrics() {
+    return Object.fromEntries(
+      PRIORITIES.map((priority) => [
+        priority,
+        {
+          queued: (this.queues.get(priority) as Job[]).length,
+          running: this.running.get(priority),
+          ...this.metrics[priority],
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Al apagar se descartan `prefetch` y `warmup`. Los refrescos encolados se
+   * siguen despachando hasta `SHUTDOWN_DRAIN_TIMEOUT_MS`, porque el handler de
+   * disponibilidad espera a los que están en curso.
+   */
+  onModuleDestroy(): void {
+    this.shutdownDeadline = Date.now() + this.drainTimeoutMs;
+    this.dropQueued(
+      (priority) => !DRAINED_ON_SHUTDOWN.has(priority),
+      'shutting down',
+    );
+    this.pump();
+  }
+
+  private pump(): void {
+    this.dropExpired();
+    if (this.shutdownDeadline !== null && Date.now() >= this.shutdownDeadline) {
+      this.dropQueued(
+        (priority) => priority !== 'interactive',
+        'shutdown drain timeout',
+      );
+    }
+
+    const availableRatio =
+      this.rateLimiter.getAvailableTokens() / this.rateLimiter.getCapacity();
+
+    for (const priority of PRIORITIES) {
+      const queue = this.queues.get(priority) as Job[];
+      const policy = POLICIES[priority];
+
+      while (
+        queue.length > 0 &&
+        (this.running.get(priority) as number) < policy.concurrency &&
+        availableRatio >= policy.minTokensRatio
+      ) {
+        this.dispatch(queue.shift() as Job);
+      }
+
+      // Prioridad estricta: lo menos prioritario espera a que esto se vacíe
+      if (queue.length > 0) {
+        break;
+      }
+    }
+
+    this.schedulePump();
+  }
+
+  private dispatch(job: Job): void {
+    this.queuedByKey.delete(job.key);
+    this.running.set(
+      job.priority,
+      (this.running.get(job.priority) as number) + 1,
+    );
+    this.metrics[job.priority].dispatched++;
+
+    // La tarea corre con la prioridad del job, que puede haber sido promovido
+    this.context
+      .run(job.priority, job.task)
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        this.running.set(
+          job.priority,
+          (this.running.get(job.priority) as number) - 1,
+        );
+        this.pump();
+      });
+  }
+
+  private dropExpired(): void {
+    const now = Date.now();
+    for (const priority of PRIORITIES) {
+      const queue = this.queues.get(priority) as Job[];
+      const expired = queue.filter(
+        (job) => now - job.enqueuedAt > POLICIES[priority].maxDeferMs,
+      );
+      expired.forEach((job) => {
+        queue.splice(queue.indexOf(job), 1);
+        this.drop(job);
+      });
+    }
+  }
+
+  private dropQueued(
+    shouldDrop: (priority: RequestPriority) => boolean,
+    reason: string,
+  ): void {
+    for (const priority of PRIORITIES.filter(shouldDrop)) {
+      (this.queues.get(priority) as Job[])
+        .splice(0)
+        .forEach((job) => this.drop(job, reason));
+    }
+  }
+
+  private drop(job: Job, reason?: string): void {
+    this.queuedByKey.delete(job.key);
+    this.metrics[job.priority].dropped++;
+    this.logger.debug(`Dropping deferred ${job.priority} request: ${job.key}`);
+    job.reject(new RequestDroppedError(job.key, job.priority, reason));
+  }
+
+  private move(job: Job, priority: RequestPriority): void {
+    const from = this.queues.get(job.priority) as Job[];
+    from.splice(from.indexOf(job), 1);
+    job.priority = priority;
+    (this.queues.get(priority) as Job[]).push(job);
+    this.pump();
+  }
+
+  private schedulePump(): void {
+    const pending = PRIORITIES.some(
+      (priority) => (this.queues.get(priority) as Job[]).length > 0,
+    );
+    if (!pending || this.pumpTimer) {
+      return;
+    }
+
+    this.pumpTimer = setTimeout(() => {
+      this.pumpTimer = null;
+      this.pump();
+    }, this.PUMP_INTERVAL);
+    this.pumpTimer.unref();
+  }
+}
+
+function rank(priority: RequestPriority): number {
+  return PRIORITIES.indexOf(priority);
+}
@@ -5,12 +5,21 @@ import {
 } from '@nestjs/platform-fastify';
 
 import { AppModule } from './app.module';
+import { AppLogger } from './infrastructure/services/app-logger.service';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
-    new FastifyAdapter({ logger: true }),
+    // Los requests se registran con RequestLoggingInterceptor
+    new FastifyAdapter(),
+    // El body crudo es necesario para verificar la firma de los webhooks.
+    // Los logs del arranque se guardan hasta que AppLogger está disponible
+    { rawBody: true, bufferLogs: true },
   );
+  app.useLogger(app.get(AppLogger));
+  app.flushLogs();
+  // SIGTERM drena búsquedas y eventos en curso y cierra Redis (ver HealthService)
+  app.enableShutdownHooks();
   await app.listen(3000, '0.0.0.0');
 }
 bootstrap();